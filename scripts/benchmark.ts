@@ -0,0 +1,121 @@
+/**
+ * Transcription accuracy benchmark.
+ *
+ *   npm run benchmark -- [folder] [--format markdown|json] [--output file]
+ *                        [--profile id] [--algorithm yin|mcleod|autocorrelation]
+ *
+ * The folder holds WAV files, each labelled by a MIDI (.mid, .midi) or ABC
+ * (.abc) file of the same name whose time zero is the start of the audio.
+ * Without a folder the synthetic regression melodies are used.
+ */
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { Benchmark, formatMarkdown, type BenchmarkItem } from '$lib/evaluation/Benchmark';
+import { parseWav } from '$lib/audio/WavFile';
+import { AbcParser } from '$lib/notation/AbcParser';
+import { MidiReader } from '$lib/notation/MidiReader';
+import { TempoMap } from '$lib/notation/TempoMap';
+import { midiToPitch } from '$lib/notation/NotePitch';
+import { PITCH_ALGORITHMS, type PitchAlgorithmName } from '$lib/pitch/PitchAlgorithm';
+import { DEFAULT_DETECTION_PROFILE, DETECTION_PROFILES } from '$lib/pitch/DetectionProfile';
+import { REGRESSION_CORPUS } from '$lib/testing/SyntheticCorpus';
+import { expectedNotes, renderMelody } from '$lib/testing/SyntheticVoice';
+import type { ImportedScore } from '$lib/types';
+
+const REFERENCE_EXTENSIONS = ['.mid', '.midi', '.abc'];
+const SYNTHETIC_SAMPLE_RATE = 44100;
+
+async function loadFolder(folder: string): Promise<BenchmarkItem[]> {
+	const files = (await readdir(folder)).sort();
+	const items: BenchmarkItem[] = [];
+
+	for (const file of files.filter((name) => extname(name).toLowerCase() === '.wav')) {
+		const name = basename(file, extname(file));
+		const labelFile = files.find(
+			(other) => basename(other, extname(other)) === name && REFERENCE_EXTENSIONS.includes(extname(other).toLowerCase())
+		);
+		if (!labelFile) {
+			console.warn(`Skipping ${file}: no ${REFERENCE_EXTENSIONS.join(', ')} file of the same name`);
+			continue;
+		}
+
+		const audio = parseWav(new Uint8Array(await readFile(join(folder, file))));
+		const score = await loadReference(join(folder, labelFile));
+		items.push({
+			name,
+			samples: audio.samples,
+			sampleRate: audio.sampleRate,
+			reference: score.notes,
+			referenceBpm: new TempoMap(score.tempoChanges).getInitialBpm()
+		});
+	}
+	return items;
+}
+
+async function loadReference(path: string): Promise<ImportedScore> {
+	if (extname(path).toLowerCase() === '.abc') {
+		return new AbcParser().parse(await readFile(path, 'utf8'));
+	}
+	return new MidiReader().parse(new Uint8Array(await readFile(path)));
+}
+
+function syntheticItems(): BenchmarkItem[] {
+	return REGRESSION_CORPUS.map((testCase) => ({
+		name: testCase.name,
+		samples: renderMelody(testCase.notes, { ...testCase.render, sampleRate: SYNTHETIC_SAMPLE_RATE }),
+		sampleRate: SYNTHETIC_SAMPLE_RATE,
+		reference: expectedNotes(testCase.notes).map(({ midiNumber, startTime, duration }) => ({
+			...midiToPitch(midiNumber),
+			startTime,
+			duration
+		})),
+		// One detected tempo can only hope to match the middle of a drift
+		referenceBpm: (testCase.bpm + (testCase.endBpm ?? testCase.bpm)) / 2
+	}));
+}
+
+async function main(): Promise<void> {
+	const { values, positionals } = parseArgs({
+		allowPositionals: true,
+		options: {
+			format: { type: 'string', default: 'markdown' },
+			output: { type: 'string' },
+			profile: { type: 'string', default: DEFAULT_DETECTION_PROFILE },
+			algorithm: { type: 'string' }
+		}
+	});
+
+	const profile = DETECTION_PROFILES.find((candidate) => candidate.id === values.profile);
+	if (!profile) {
+		throw new Error(`Unknown profile "${values.profile}". Choose from ${DETECTION_PROFILES.map((p) => p.id).join(', ')}.`);
+	}
+	const algorithm = values.algorithm ?? profile.settings.algorithm;
+	if (!PITCH_ALGORITHMS.some((candidate) => candidate.value === algorithm)) {
+		throw new Error(`Unknown algorithm "${algorithm}". Choose from ${PITCH_ALGORITHMS.map((a) => a.value).join(', ')}.`);
+	}
+	if (values.format !== 'markdown' && values.format !== 'json') {
+		throw new Error('Format must be markdown or json.');
+	}
+
+	const items = positionals[0] ? await loadFolder(positionals[0]) : syntheticItems();
+	if (items.length === 0) {
+		throw new Error('No labelled recordings found.');
+	}
+
+	const benchmark = new Benchmark({ detection: { ...profile.settings, algorithm: algorithm as PitchAlgorithmName } });
+	const report = await benchmark.run(items, (name) => console.error(`Transcribing ${name}`));
+	const output = values.format === 'json' ? JSON.stringify(report, null, 2) + '\n' : formatMarkdown(report);
+
+	if (values.output) {
+		await writeFile(values.output, output);
+		console.error(`Wrote ${values.output}`);
+	} else {
+		process.stdout.write(output);
+	}
+}
+
+main().catch((err) => {
+	console.error(err instanceof Error ? err.message : err);
+	process.exitCode = 1;
+});
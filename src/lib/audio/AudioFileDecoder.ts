@@ -0,0 +1,49 @@
+export interface DecodedAudio {
+	samples: Float32Array; // Mono PCM, channels mixed down
+	sampleRate: number;
+	duration: number; // in seconds
+}
+
+export class AudioFileDecoder {
+	// Decode at a fixed rate so offline analysis is independent of the device
+	readonly sampleRate = 44100;
+
+	async decode(file: Blob): Promise<DecodedAudio> {
+		const arrayBuffer = await file.arrayBuffer();
+
+		// An OfflineAudioContext can decode without a user gesture and
+		// resamples the file to its own sample rate
+		const context = new OfflineAudioContext(1, 1, this.sampleRate);
+
+		let audioBuffer: AudioBuffer;
+		try {
+			audioBuffer = await context.decodeAudioData(arrayBuffer);
+		} catch {
+			throw new Error('Could not decode audio file. Supported formats are WAV, MP3, OGG and WebM.');
+		}
+
+		return {
+			samples: this.mixToMono(audioBuffer),
+			sampleRate: audioBuffer.sampleRate,
+			duration: audioBuffer.duration
+		};
+	}
+
+	private mixToMono(audioBuffer: AudioBuffer): Float32Array {
+		if (audioBuffer.numberOfChannels === 1) {
+			return audioBuffer.getChannelData(0);
+		}
+
+		const mono = new Float32Array(audioBuffer.length);
+		for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+			const data = audioBuffer.getChannelData(channel);
+			for (let i = 0; i < data.length; i++) {
+				mono[i] += data[i];
+			}
+		}
+		for (let i = 0; i < mono.length; i++) {
+			mono[i] /= audioBuffer.numberOfChannels;
+		}
+		return mono;
+	}
+}
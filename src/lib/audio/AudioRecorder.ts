@@ -1,14 +1,21 @@
+import pcmCaptureUrl from '$lib/audio/PcmCaptureProcessor.ts?worker&url';
+import type { PcmChunkMessage } from '$lib/audio/PcmCaptureProcessor';
+
+export type PcmListener = (samples: Float32Array) => void;
+
 export class AudioRecorder {
 	private audioContext: AudioContext | null = null;
-	private analyser: AnalyserNode | null = null;
 	private mediaStream: MediaStream | null = null;
 	private sourceNode: MediaStreamAudioSourceNode | null = null;
-	private dataArray: Float32Array<ArrayBuffer> | null = null;
+	private captureNode: AudioWorkletNode | null = null;
+	private muteNode: GainNode | null = null;
 	private isRecording = false;
 
-	readonly fftSize = 2048;
-
-	async start(): Promise<void> {
+	/**
+	 * Start capturing the microphone. Every sample is delivered to the
+	 * listener in order, so consumers can keep their own sample clock.
+	 */
+	async start(onSamples: PcmListener): Promise<void> {
 		if (this.isRecording) return;
 
 		try {
@@ -23,14 +30,28 @@ export class AudioRecorder {
 			// Use device's native sample rate instead of forcing 44100
 			// Mobile devices often use 48000Hz and forcing a different rate causes issues
 			this.audioContext = new AudioContext();
-			this.analyser = this.audioContext.createAnalyser();
-			this.analyser.fftSize = this.fftSize;
-			this.analyser.smoothingTimeConstant = 0;
+			await this.audioContext.audioWorklet.addModule(pcmCaptureUrl);
+
+			this.captureNode = new AudioWorkletNode(this.audioContext, 'pcm-capture', {
+				numberOfInputs: 1,
+				numberOfOutputs: 1,
+				channelCount: 1
+			});
+			this.captureNode.port.onmessage = (event: MessageEvent<PcmChunkMessage>) => {
+				if (this.isRecording) {
+					onSamples(event.data.samples);
+				}
+			};
+
+			// Some browsers only run nodes that reach the destination - route through silence
+			this.muteNode = this.audioContext.createGain();
+			this.muteNode.gain.value = 0;
 
 			this.sourceNode = this.audioContext.createMediaStreamSource(this.mediaStream);
-			this.sourceNode.connect(this.analyser);
+			this.sourceNode.connect(this.captureNode);
+			this.captureNode.connect(this.muteNode);
+			this.muteNode.connect(this.audioContext.destination);
 
-			this.dataArray = new Float32Array(this.analyser.fftSize);
 			this.isRecording = true;
 		} catch (error) {
 			this.cleanup();
@@ -48,6 +69,15 @@ export class AudioRecorder {
 			this.sourceNode.disconnect();
 			this.sourceNode = null;
 		}
+		if (this.captureNode) {
+			this.captureNode.port.onmessage = null;
+			this.captureNode.disconnect();
+			this.captureNode = null;
+		}
+		if (this.muteNode) {
+			this.muteNode.disconnect();
+			this.muteNode = null;
+		}
 		if (this.mediaStream) {
 			this.mediaStream.getTracks().forEach((track) => track.stop());
 			this.mediaStream = null;
@@ -56,16 +86,6 @@ export class AudioRecorder {
 			this.audioContext.close();
 			this.audioContext = null;
 		}
-		this.analyser = null;
-		this.dataArray = null;
-	}
-
-	getTimeDomainData(): Float32Array | null {
-		if (!this.analyser || !this.dataArray || !this.isRecording) {
-			return null;
-		}
-		this.analyser.getFloatTimeDomainData(this.dataArray);
-		return this.dataArray;
 	}
 
 	getCurrentTime(): number {
@@ -76,6 +96,14 @@ export class AudioRecorder {
 		return this.isRecording;
 	}
 
+	/**
+	 * The input in use, so settings can be kept per microphone
+	 */
+	getDevice(): { id: string; label: string } {
+		const track = this.mediaStream?.getAudioTracks()[0];
+		return { id: track?.getSettings().deviceId || 'default', label: track?.label || 'Microphone' };
+	}
+
 	getSampleRate(): number {
 		return this.audioContext?.sampleRate ?? 44100;
 	}
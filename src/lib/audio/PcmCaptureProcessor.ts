@@ -0,0 +1,41 @@
+// AudioWorklet processor that forwards raw microphone PCM to the main thread.
+// Runs in the AudioWorkletGlobalScope, which the DOM lib does not describe.
+declare class AudioWorkletProcessor {
+	readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processorCtor: typeof AudioWorkletProcessor): void;
+
+export interface PcmChunkMessage {
+	samples: Float32Array;
+}
+
+// Render quanta are 128 samples - batch them to keep message traffic low
+const CHUNK_SIZE = 1024;
+const RENDER_QUANTUM = 128;
+const SILENCE = new Float32Array(RENDER_QUANTUM);
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+	private buffer = new Float32Array(CHUNK_SIZE);
+	private bufferLength = 0;
+
+	process(inputs: Float32Array[][]): boolean {
+		// Only the first channel is used, the pitch detector works on mono.
+		// A missing input still advances the sample clock with silence.
+		const channel = inputs[0]?.[0] ?? SILENCE;
+
+		for (let i = 0; i < channel.length; i++) {
+			this.buffer[this.bufferLength++] = channel[i];
+
+			if (this.bufferLength === CHUNK_SIZE) {
+				const message: PcmChunkMessage = { samples: this.buffer };
+				this.port.postMessage(message, [this.buffer.buffer]);
+				this.buffer = new Float32Array(CHUNK_SIZE);
+				this.bufferLength = 0;
+			}
+		}
+
+		return true;
+	}
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
@@ -0,0 +1,81 @@
+import type { TakeAudio } from '$lib/types';
+
+export type PlaybackSource = 'melody' | 'original' | 'mix';
+
+// Melody and original gains for each source; the voice leads the mix
+const SOURCE_GAINS: Record<PlaybackSource, [number, number]> = {
+	melody: [1, 0],
+	original: [0, 1],
+	mix: [0.5, 1]
+};
+const SWITCH_TIME = 0.02; // seconds to fade on a switch, so it doesn't click
+
+/**
+ * Plays the synthesized melody and the take's original audio on one
+ * AudioContext clock, each through its own gain, so they stay in step
+ * and can be switched or mixed while playing.
+ */
+export class TakePlayer {
+	private melodyGain: GainNode;
+	private originalGain: GainNode;
+	private sources: AudioBufferSourceNode[] = [];
+	private original: { audio: TakeAudio; buffer: AudioBuffer } | null = null;
+
+	constructor(
+		private readonly context: AudioContext,
+		source: PlaybackSource = 'melody'
+	) {
+		this.melodyGain = context.createGain();
+		this.originalGain = context.createGain();
+		this.melodyGain.connect(context.destination);
+		this.originalGain.connect(context.destination);
+		[this.melodyGain.gain.value, this.originalGain.gain.value] = SOURCE_GAINS[source];
+	}
+
+	/**
+	 * Start the melody at once and the original `offset` seconds into the
+	 * recording, which is where the melody's first beat falls in it
+	 */
+	play(melody: AudioBuffer, original: TakeAudio | null, offset: number): void {
+		this.stop();
+		const when = this.context.currentTime;
+		this.startBuffer(melody, this.melodyGain, when, 0);
+		if (original) {
+			// A recording that starts after the first beat waits for it
+			this.startBuffer(this.getBuffer(original), this.originalGain, when + Math.max(0, -offset), Math.max(0, offset));
+		}
+	}
+
+	setSource(source: PlaybackSource): void {
+		const [melody, original] = SOURCE_GAINS[source];
+		const now = this.context.currentTime;
+		this.melodyGain.gain.setTargetAtTime(melody, now, SWITCH_TIME / 3);
+		this.originalGain.gain.setTargetAtTime(original, now, SWITCH_TIME / 3);
+	}
+
+	stop(): void {
+		for (const node of this.sources) {
+			node.stop();
+			node.disconnect();
+		}
+		this.sources = [];
+	}
+
+	private startBuffer(buffer: AudioBuffer, output: GainNode, when: number, offset: number): void {
+		const node = this.context.createBufferSource();
+		node.buffer = buffer;
+		node.connect(output);
+		node.start(when, offset);
+		this.sources.push(node);
+	}
+
+	// Copying a take into an AudioBuffer is slow for long takes, so keep the last one
+	private getBuffer(audio: TakeAudio): AudioBuffer {
+		if (this.original?.audio !== audio) {
+			const buffer = this.context.createBuffer(1, audio.samples.length, audio.sampleRate);
+			buffer.getChannelData(0).set(audio.samples);
+			this.original = { audio, buffer };
+		}
+		return this.original.buffer;
+	}
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav, parseWav } from '$lib/audio/WavFile';
+
+describe('encodeWav', () => {
+	it('writes 16-bit PCM that reads back to within its precision', () => {
+		const samples = new Float32Array(1000).map((_, i) => 0.8 * Math.sin(i / 10));
+		const decoded = parseWav(encodeWav(samples, 48000));
+
+		expect(decoded.sampleRate).toBe(48000);
+		expect(decoded.samples.length).toBe(samples.length);
+		decoded.samples.forEach((sample, i) => expect(Math.abs(sample - samples[i])).toBeLessThan(1e-4));
+	});
+
+	it('clips samples outside -1 to 1', () => {
+		const decoded = parseWav(encodeWav(new Float32Array([1.5, -2]), 44100));
+		expect(decoded.samples[0]).toBeCloseTo(1, 3);
+		expect(decoded.samples[1]).toBe(-1);
+	});
+});
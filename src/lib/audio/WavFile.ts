@@ -0,0 +1,116 @@
+import type { DecodedAudio } from '$lib/audio/AudioFileDecoder';
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Read a RIFF WAVE file without the Web Audio API, for running the
+ * pipeline outside the browser. Integer PCM of 8 to 32 bits and 32-bit
+ * float are supported; channels are mixed down to mono.
+ */
+export function parseWav(data: Uint8Array): DecodedAudio {
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const tag = (offset: number) => String.fromCharCode(...data.subarray(offset, offset + 4));
+	if (data.length < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+		throw new Error('This is not a WAV file.');
+	}
+
+	let format: { type: number; channels: number; sampleRate: number; bits: number } | null = null;
+	let samples: DataView | null = null;
+
+	// Chunks are padded to an even length
+	for (let offset = 12; offset + 8 <= data.length; ) {
+		const id = tag(offset);
+		const size = view.getUint32(offset + 4, true);
+		const body = offset + 8;
+
+		if (id === 'fmt ') {
+			let type = view.getUint16(body, true);
+			// The extensible format keeps the real one at the start of its sub-format GUID
+			if (type === FORMAT_EXTENSIBLE && size >= 26) type = view.getUint16(body + 24, true);
+			format = {
+				type,
+				channels: view.getUint16(body + 2, true),
+				sampleRate: view.getUint32(body + 4, true),
+				bits: view.getUint16(body + 14, true)
+			};
+		} else if (id === 'data') {
+			samples = new DataView(data.buffer, data.byteOffset + body, Math.min(size, data.length - body));
+		}
+		offset = body + size + (size % 2);
+	}
+
+	if (!format || !samples) {
+		throw new Error('This WAV file has no audio data.');
+	}
+	const { type, channels, sampleRate, bits } = format;
+	const read = sampleReader(type, bits);
+	if (!read) {
+		throw new Error(`WAV files with ${bits}-bit samples in format ${type} are not supported.`);
+	}
+
+	const bytes = bits / 8;
+	const length = Math.floor(samples.byteLength / (bytes * channels));
+	const mono = new Float32Array(length);
+	for (let i = 0; i < length; i++) {
+		let sum = 0;
+		for (let channel = 0; channel < channels; channel++) {
+			sum += read(samples, (i * channels + channel) * bytes);
+		}
+		mono[i] = sum / channels;
+	}
+
+	return { samples: mono, sampleRate, duration: length / sampleRate };
+}
+
+function sampleReader(type: number, bits: number): ((view: DataView, offset: number) => number) | null {
+	if (type === FORMAT_FLOAT && bits === 32) return (view, offset) => view.getFloat32(offset, true);
+	if (type !== FORMAT_PCM) return null;
+
+	switch (bits) {
+		case 8: // unsigned, centered on 128
+			return (view, offset) => (view.getUint8(offset) - 128) / 128;
+		case 16:
+			return (view, offset) => view.getInt16(offset, true) / 0x8000;
+		case 24:
+			return (view, offset) =>
+				((view.getInt8(offset + 2) << 16) | (view.getUint8(offset + 1) << 8) | view.getUint8(offset)) / 0x800000;
+		case 32:
+			return (view, offset) => view.getInt32(offset, true) / 0x80000000;
+		default:
+			return null;
+	}
+}
+
+/**
+ * Write mono samples as a 16-bit PCM WAV file
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array<ArrayBuffer> {
+	const dataSize = samples.length * 2;
+	const data = new Uint8Array(44 + dataSize);
+	const view = new DataView(data.buffer);
+	const writeTag = (offset: number, tag: string) => {
+		for (let i = 0; i < 4; i++) data[offset + i] = tag.charCodeAt(i);
+	};
+
+	writeTag(0, 'RIFF');
+	view.setUint32(4, 36 + dataSize, true);
+	writeTag(8, 'WAVE');
+	writeTag(12, 'fmt ');
+	view.setUint32(16, 16, true);
+	view.setUint16(20, FORMAT_PCM, true);
+	view.setUint16(22, 1, true); // channels
+	view.setUint32(24, sampleRate, true);
+	view.setUint32(28, sampleRate * 2, true); // bytes per second
+	view.setUint16(32, 2, true); // bytes per frame
+	view.setUint16(34, 16, true);
+	writeTag(36, 'data');
+	view.setUint32(40, dataSize, true);
+
+	for (let i = 0; i < samples.length; i++) {
+		const sample = Math.max(-1, Math.min(1, samples[i]));
+		view.setInt16(44 + i * 2, Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7fff), true);
+	}
+	return data;
+}
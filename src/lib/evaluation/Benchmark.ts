@@ -0,0 +1,169 @@
+import type { DetectionSettings } from '$lib/pitch/DetectionProfile';
+import { transcribe } from '$lib/testing/Transcription';
+import {
+	DEFAULT_TOLERANCES,
+	rawPitchAccuracy,
+	scoreNotes,
+	tempoError,
+	type MatchTolerances,
+	type NoteScores
+} from '$lib/evaluation/TranscriptionMetrics';
+import type { DetectedNote } from '$lib/types';
+
+// One labelled recording
+export interface BenchmarkItem {
+	name: string;
+	samples: Float32Array; // mono PCM
+	sampleRate: number;
+	reference: DetectedNote[]; // the notes sung, in seconds on the audio's clock
+	referenceBpm: number;
+}
+
+export interface BenchmarkSettings {
+	windowSize: number;
+	detection: Partial<DetectionSettings>;
+	tolerances: MatchTolerances;
+}
+
+export interface ItemResult {
+	name: string;
+	referenceNotes: number;
+	detectedNotes: number;
+	onset: NoteScores; // pitch and onset
+	onsetOffset: NoteScores; // pitch, onset and offset
+	rawPitchAccuracy: number;
+	referenceBpm: number;
+	detectedBpm: number;
+	tempoError: number;
+}
+
+export interface BenchmarkReport {
+	settings: BenchmarkSettings;
+	items: ItemResult[];
+	// Averaged over items, so each recording counts the same
+	mean: {
+		onset: Omit<NoteScores, 'matches'>;
+		onsetOffset: Omit<NoteScores, 'matches'>;
+		rawPitchAccuracy: number;
+		tempoError: number;
+	};
+}
+
+const DEFAULT_SETTINGS: BenchmarkSettings = {
+	windowSize: 2048,
+	detection: {},
+	tolerances: DEFAULT_TOLERANCES
+};
+
+// Decimal places kept in the report, enough to compare runs without noise
+const PRECISION = 4;
+
+/**
+ * Runs labelled recordings through the same chain as the app and scores
+ * the notes, pitch track and tempo against the labels
+ */
+export class Benchmark {
+	private settings: BenchmarkSettings;
+
+	constructor(settings: Partial<BenchmarkSettings> = {}) {
+		this.settings = { ...DEFAULT_SETTINGS, ...settings };
+	}
+
+	async run(items: BenchmarkItem[], onItem?: (name: string) => void): Promise<BenchmarkReport> {
+		const results: ItemResult[] = [];
+		for (const item of items) {
+			onItem?.(item.name);
+			results.push(await this.evaluate(item));
+		}
+
+		const mean = (value: (result: ItemResult) => number) =>
+			round(results.reduce((sum, result) => sum + value(result), 0) / Math.max(1, results.length));
+		return {
+			settings: this.settings,
+			items: results,
+			mean: {
+				onset: {
+					precision: mean((result) => result.onset.precision),
+					recall: mean((result) => result.onset.recall),
+					fMeasure: mean((result) => result.onset.fMeasure)
+				},
+				onsetOffset: {
+					precision: mean((result) => result.onsetOffset.precision),
+					recall: mean((result) => result.onsetOffset.recall),
+					fMeasure: mean((result) => result.onsetOffset.fMeasure)
+				},
+				rawPitchAccuracy: mean((result) => result.rawPitchAccuracy),
+				tempoError: mean((result) => result.tempoError)
+			}
+		};
+	}
+
+	private async evaluate(item: BenchmarkItem): Promise<ItemResult> {
+		const { windowSize, detection, tolerances } = this.settings;
+		const transcription = await transcribe(item.samples, {
+			sampleRate: item.sampleRate,
+			analysis: { windowSize, detection }
+		});
+
+		// Frames are stamped at the end of their window, so everything
+		// detected runs one window late of the audio
+		const latency = windowSize / item.sampleRate;
+		const detected = transcription.rawNotes.map((note) => ({ ...note, startTime: note.startTime - latency }));
+		const pitchTrack = transcription.pitchTrack.map((frame) => ({ ...frame, timestamp: frame.timestamp - latency }));
+
+		return {
+			name: item.name,
+			referenceNotes: item.reference.length,
+			detectedNotes: detected.length,
+			onset: roundScores(scoreNotes(item.reference, detected, false, tolerances)),
+			onsetOffset: roundScores(scoreNotes(item.reference, detected, true, tolerances)),
+			rawPitchAccuracy: round(rawPitchAccuracy(item.reference, pitchTrack, tolerances.pitch)),
+			referenceBpm: round(item.referenceBpm),
+			detectedBpm: round(transcription.bpm),
+			tempoError: round(tempoError(item.referenceBpm, transcription.bpm))
+		};
+	}
+}
+
+/**
+ * The report as Markdown tables, one row per recording and the means last
+ */
+export function formatMarkdown(report: BenchmarkReport): string {
+	const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+	const { algorithm } = report.settings.detection;
+	const { onset, offsetRatio, minOffset, pitch } = report.settings.tolerances;
+
+	const lines = [
+		'# Transcription benchmark',
+		'',
+		`Detector: ${algorithm ?? 'default'}, ${report.settings.windowSize}-sample window. ` +
+			`Onsets within ${onset * 1000} ms, offsets within ${offsetRatio * 100}% or ${minOffset * 1000} ms, pitch within ${pitch} cents.`,
+		'',
+		'| Recording | Notes (ref/det) | P | R | F | P (offset) | R (offset) | F (offset) | Raw pitch | BPM (ref/det) | Tempo error |',
+		'| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |'
+	];
+	for (const item of report.items) {
+		lines.push(
+			`| ${item.name} | ${item.referenceNotes}/${item.detectedNotes} | ${percent(item.onset.precision)} | ${percent(item.onset.recall)} | ` +
+				`${percent(item.onset.fMeasure)} | ${percent(item.onsetOffset.precision)} | ${percent(item.onsetOffset.recall)} | ` +
+				`${percent(item.onsetOffset.fMeasure)} | ${percent(item.rawPitchAccuracy)} | ` +
+				`${Math.round(item.referenceBpm)}/${Math.round(item.detectedBpm)} | ${percent(item.tempoError)} |`
+		);
+	}
+
+	const { mean } = report;
+	lines.push(
+		`| **Mean** | | ${percent(mean.onset.precision)} | ${percent(mean.onset.recall)} | ${percent(mean.onset.fMeasure)} | ` +
+			`${percent(mean.onsetOffset.precision)} | ${percent(mean.onsetOffset.recall)} | ${percent(mean.onsetOffset.fMeasure)} | ` +
+			`${percent(mean.rawPitchAccuracy)} | | ${percent(mean.tempoError)} |`
+	);
+	return lines.join('\n') + '\n';
+}
+
+function roundScores(scores: NoteScores): NoteScores {
+	return { ...scores, precision: round(scores.precision), recall: round(scores.recall), fMeasure: round(scores.fMeasure) };
+}
+
+function round(value: number): number {
+	return Number(value.toFixed(PRECISION));
+}
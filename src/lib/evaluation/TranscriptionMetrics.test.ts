@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { rawPitchAccuracy, scoreNotes, tempoError } from '$lib/evaluation/TranscriptionMetrics';
+import { midiToPitch } from '$lib/notation/NotePitch';
+import type { DetectedNote, PitchData } from '$lib/types';
+
+function note(midi: number, startTime: number, duration: number, cents = 0): DetectedNote {
+	const pitch = midiToPitch(midi);
+	return { ...pitch, startTime, duration, frequency: pitch.frequency * Math.pow(2, cents / 1200) };
+}
+
+describe('scoreNotes', () => {
+	const reference = [note(60, 0, 0.5), note(62, 0.5, 0.5), note(64, 1, 1)];
+
+	it('scores a perfect transcription as 1', () => {
+		expect(scoreNotes(reference, reference, true)).toEqual({ precision: 1, recall: 1, fMeasure: 1, matches: 3 });
+	});
+
+	it('matches onsets and pitch within tolerance', () => {
+		const detected = [note(60, 0.04, 0.5, 40), note(62, 0.56, 0.44), note(63, 1, 1)];
+		const scores = scoreNotes(reference, detected, false);
+		expect(scores.matches).toBe(1);
+		expect(scores.precision).toBeCloseTo(1 / 3);
+		expect(scores.recall).toBeCloseTo(1 / 3);
+	});
+
+	it('allows offsets 20% of the note or 50 ms away', () => {
+		const detected = [note(60, 0, 0.58), note(62, 0.5, 0.38), note(64, 1, 0.75)];
+		expect(scoreNotes(reference, detected, false).matches).toBe(3);
+		expect(scoreNotes(reference, detected, true).matches).toBe(1);
+	});
+
+	it('counts extra and missing notes', () => {
+		const detected = [note(60, 0, 0.25), note(60, 0.25, 0.25), note(64, 1, 1)];
+		expect(scoreNotes(reference, detected, false)).toEqual({
+			precision: 2 / 3,
+			recall: 2 / 3,
+			fMeasure: 2 / 3,
+			matches: 2
+		});
+	});
+
+	it('finds the matching that pairs the most notes', () => {
+		// The first detected note could match either reference note, but only the first may take it
+		const close = [note(60, 0, 0.1), note(60, 0.06, 0.1)];
+		const detected = [note(60, 0.03, 0.1), note(60, 0.1, 0.1)];
+		expect(scoreNotes(close, detected, false).matches).toBe(2);
+	});
+
+	it('scores nothing against nothing as 0', () => {
+		expect(scoreNotes([], [], false).fMeasure).toBe(0);
+	});
+});
+
+describe('rawPitchAccuracy', () => {
+	const frame = (timestamp: number, midi: number | null): PitchData => ({
+		frequency: midi === null ? null : midiToPitch(midi).frequency,
+		clarity: 1,
+		timestamp
+	});
+
+	it('counts frames inside notes that are within a quarter tone', () => {
+		const reference = [note(60, 0, 0.4)];
+		const track = [frame(-0.1, 50), frame(0, 60), frame(0.1, 72), frame(0.2, null), frame(0.3, 60), frame(0.5, 40)];
+		expect(rawPitchAccuracy(reference, track)).toBeCloseTo(2 / 4);
+	});
+
+	it('prefers the unsmoothed estimate', () => {
+		const reference = [note(60, 0, 0.4)];
+		const track = [{ ...frame(0.1, 60), rawFrequency: midiToPitch(62).frequency }];
+		expect(rawPitchAccuracy(reference, track)).toBe(0);
+	});
+});
+
+describe('tempoError', () => {
+	it('is relative to the reference tempo', () => {
+		expect(tempoError(100, 110)).toBeCloseTo(0.1);
+		expect(tempoError(120, 60)).toBeCloseTo(0.5);
+	});
+});
@@ -0,0 +1,119 @@
+import type { DetectedNote, PitchData } from '$lib/types';
+import { midiToPitch } from '$lib/notation/NotePitch';
+
+export interface MatchTolerances {
+	onset: number; // seconds either side of the reference onset
+	offsetRatio: number; // share of the reference note's length allowed for the offset...
+	minOffset: number; // ...but never less than this many seconds
+	pitch: number; // cents
+}
+
+// The usual note-transcription tolerances (MIREX): 50 ms onsets, offsets
+// within 20% of the note or 50 ms, pitch within a quarter tone
+export const DEFAULT_TOLERANCES: MatchTolerances = {
+	onset: 0.05,
+	offsetRatio: 0.2,
+	minOffset: 0.05,
+	pitch: 50
+};
+
+export interface NoteScores {
+	precision: number; // share of detected notes that match a reference note
+	recall: number; // share of reference notes that were detected
+	fMeasure: number;
+	matches: number;
+}
+
+/**
+ * Note-level precision, recall and F-measure. Each reference note matches
+ * at most one detected note, chosen to make as many matches as possible.
+ * Notes match when their pitch and onset agree, and their offset too when
+ * withOffsets is set.
+ */
+export function scoreNotes(
+	reference: DetectedNote[],
+	detected: DetectedNote[],
+	withOffsets: boolean,
+	tolerances: MatchTolerances = DEFAULT_TOLERANCES
+): NoteScores {
+	const candidates = reference.map((expected) =>
+		detected.flatMap((note, j) => (notesMatch(expected, note, withOffsets, tolerances) ? [j] : []))
+	);
+
+	// Maximum bipartite matching by augmenting paths
+	const matchedTo = new Array<number>(detected.length).fill(-1);
+	const augment = (i: number, seen: boolean[]): boolean => {
+		for (const j of candidates[i]) {
+			if (seen[j]) continue;
+			seen[j] = true;
+			if (matchedTo[j] === -1 || augment(matchedTo[j], seen)) {
+				matchedTo[j] = i;
+				return true;
+			}
+		}
+		return false;
+	};
+	let matches = 0;
+	for (let i = 0; i < reference.length; i++) {
+		if (augment(i, new Array<boolean>(detected.length).fill(false))) matches++;
+	}
+
+	const precision = detected.length > 0 ? matches / detected.length : 0;
+	const recall = reference.length > 0 ? matches / reference.length : 0;
+	const fMeasure = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+	return { precision, recall, fMeasure, matches };
+}
+
+/**
+ * Share of the frames inside reference notes whose detected pitch is within
+ * the pitch tolerance of the note. Unvoiced frames and octave errors count
+ * as misses.
+ */
+export function rawPitchAccuracy(
+	reference: DetectedNote[],
+	pitchTrack: PitchData[],
+	tolerance = DEFAULT_TOLERANCES.pitch
+): number {
+	const notes = [...reference].sort((a, b) => a.startTime - b.startTime);
+	let voiced = 0;
+	let correct = 0;
+	let noteIndex = 0;
+
+	for (const frame of pitchTrack) {
+		// Frames are in time order, so the note under them only moves forward
+		while (noteIndex < notes.length && notes[noteIndex].startTime + notes[noteIndex].duration <= frame.timestamp) {
+			noteIndex++;
+		}
+		const note = notes[noteIndex];
+		if (!note || note.startTime > frame.timestamp) continue;
+
+		// The frame's own estimate, before the detector smooths it
+		const frequency = frame.rawFrequency !== undefined ? frame.rawFrequency : frame.frequency;
+		voiced++;
+		if (frequency !== null && Math.abs(centsBetween(frequency, midiToPitch(note.midiNumber).frequency)) <= tolerance) {
+			correct++;
+		}
+	}
+
+	return voiced > 0 ? correct / voiced : 0;
+}
+
+/**
+ * Relative error of a detected tempo, 0.1 for 10% off
+ */
+export function tempoError(referenceBpm: number, bpm: number): number {
+	return Math.abs(bpm - referenceBpm) / referenceBpm;
+}
+
+function notesMatch(expected: DetectedNote, note: DetectedNote, withOffsets: boolean, tolerances: MatchTolerances): boolean {
+	if (Math.abs(centsBetween(note.frequency, midiToPitch(expected.midiNumber).frequency)) > tolerances.pitch) return false;
+	if (Math.abs(note.startTime - expected.startTime) > tolerances.onset) return false;
+	if (!withOffsets) return true;
+
+	const offsetTolerance = Math.max(tolerances.minOffset, tolerances.offsetRatio * expected.duration);
+	return Math.abs(note.startTime + note.duration - (expected.startTime + expected.duration)) <= offsetTolerance;
+}
+
+function centsBetween(frequency: number, target: number): number {
+	return 1200 * Math.log2(frequency / target);
+}
@@ -1,31 +1,61 @@
-import type { DetectedNote } from '$lib/types';
-
-// ABC note names for each semitone (C=0)
-const ABC_NOTES: Record<string, string> = {
-	'C': 'C',
-	'C#': '^C',
-	'D': 'D',
-	'D#': '^D',
-	'E': 'E',
-	'F': 'F',
-	'F#': '^F',
-	'G': 'G',
-	'G#': '^G',
-	'A': 'A',
-	'A#': '^A',
-	'B': 'B'
+import type { DetectedNote, KeySignature, TimeSignature } from '$lib/types';
+import { keySignatureAlters, keyToAbc, spellMidi } from '$lib/notation/KeySignatures';
+import { isCompound } from '$lib/notation/TimeSignatures';
+import { MeasureLayout } from '$lib/notation/MeasureLayout';
+import { TempoMap } from '$lib/notation/TempoMap';
+
+// ABC accidental prefixes by alteration
+const ABC_ACCIDENTALS: Record<number, string> = {
+	[-1]: '_',
+	0: '=',
+	1: '^'
 };
 
 export class AbcGenerator {
-	private bpm = 120;
+	private tempoMap = TempoMap.constant(120);
+	private key: KeySignature = { tonic: 0, mode: 'major' };
+	private timeSignature: TimeSignature = { beats: 4, beatType: 4 };
 	private readonly defaultNoteLength = 8; // 1/8 note as base
+	private readonly layout = new MeasureLayout();
 
 	setBpm(bpm: number): void {
-		this.bpm = bpm;
+		this.tempoMap = TempoMap.constant(bpm);
 	}
 
 	getBpm(): number {
-		return this.bpm;
+		return this.tempoMap.getInitialBpm();
+	}
+
+	setTempoMap(tempoMap: TempoMap): void {
+		this.tempoMap = tempoMap;
+	}
+
+	getTempoMap(): TempoMap {
+		return this.tempoMap;
+	}
+
+	setKey(key: KeySignature): void {
+		this.key = key;
+	}
+
+	getKey(): KeySignature {
+		return this.key;
+	}
+
+	setTimeSignature(timeSignature: TimeSignature): void {
+		this.timeSignature = timeSignature;
+		this.layout.setTimeSignature(timeSignature);
+	}
+
+	getTimeSignature(): TimeSignature {
+		return this.timeSignature;
+	}
+
+	/**
+	 * Allow triplet rhythms, written as tuplets
+	 */
+	setTriplets(triplets: boolean): void {
+		this.layout.setTriplets(triplets);
 	}
 
 	generate(notes: DetectedNote[]): string {
@@ -40,83 +70,114 @@ export class AbcGenerator {
 	}
 
 	private generateHeader(): string {
+		const { beats, beatType } = this.timeSignature;
 		return `X:1
 T:Recorded Melody
-M:4/4
+M:${beats}/${beatType}
 L:1/${this.defaultNoteLength}
-Q:1/4=${this.bpm}
-K:C
+Q:${this.getTempoField(this.tempoMap.getInitialBpm())}
+K:${keyToAbc(this.key)}
 `;
 	}
 
+	private getTempoField(bpm: number): string {
+		// Compound meters are counted in dotted quarters
+		if (isCompound(this.timeSignature)) {
+			return `3/8=${Math.round((bpm * 2) / 3)}`;
+		}
+		return `1/4=${bpm}`;
+	}
+
 	private generateBody(notes: DetectedNote[]): string {
-		const abcNotes: string[] = [];
-		let currentMeasureDuration = 0;
-		const measureDuration = this.defaultNoteLength; // 8 eighth notes per measure in 4/4
-
-		for (const note of notes) {
-			const abcNote = this.noteToAbc(note);
-			abcNotes.push(abcNote);
-
-			// Calculate duration in eighth notes
-			const durationInEighths = this.durationToEighths(note.duration);
-			currentMeasureDuration += durationInEighths;
-
-			// Add bar line every measure
-			if (currentMeasureDuration >= measureDuration) {
-				abcNotes.push('|');
-				currentMeasureDuration = currentMeasureDuration % measureDuration;
+		this.layout.setTempoMap(this.tempoMap);
+		const measures = this.layout.layout(notes);
+
+		const { beatUnits, measureUnits, unitsPerQuarter } = this.layout.getSettings();
+		let currentBpm = this.tempoMap.getInitialBpm();
+
+		const abcMeasures = measures.map((measure, index) => {
+			// Accidentals last until the barline, keyed by letter and octave
+			const measureAlters = new Map<string, number>();
+			let body = '';
+
+			// Tempo changes take effect at the barline as inline fields
+			const bpm = this.tempoMap.bpmAtBeat((index * measureUnits) / unitsPerQuarter);
+			if (bpm !== currentBpm) {
+				body = `[Q:${this.getTempoField(bpm)}] `;
+				currentBpm = bpm;
 			}
-		}
 
-		// Add final bar line if not already there
-		const body = abcNotes.join(' ');
-		return body.endsWith('|') ? body + '|' : body + ' |]';
+			measure.events.forEach((event, i) => {
+				const length = this.getLengthSuffix(event.written);
+				const tuplet =
+					event.tuplet && event.tupletStart
+						? `(${event.tuplet.actual}:${event.tuplet.normal}:${event.tuplet.count}`
+						: '';
+				const token =
+					event.note === null
+						? `${tuplet}z${length}`
+						: `${tuplet}${this.noteToAbc(event.note, measureAlters)}${length}${event.tieStart ? '-' : ''}`;
+
+				// ABC beams notes written without a space between them, so
+				// join notes that share a beat and separate everything else
+				const previous = measure.events[i - 1];
+				const beamed =
+					previous !== undefined &&
+					previous.note !== null &&
+					event.note !== null &&
+					Math.floor(previous.start / beatUnits) === Math.floor(event.start / beatUnits);
+
+				body += i === 0 || beamed ? token : ` ${token}`;
+			});
+
+			return body;
+		});
+
+		return `${abcMeasures.join(' | ')} |]`;
 	}
 
-	private noteToAbc(note: DetectedNote): string {
-		const baseNote = ABC_NOTES[note.note] || note.note;
-		let noteStr = baseNote;
+	private noteToAbc(note: DetectedNote, measureAlters: Map<string, number>): string {
+		const { step, alter, octave } = spellMidi(note.midiNumber, this.key);
+
+		// Write an accidental only when the key signature or an earlier
+		// accidental in this measure would imply a different alteration
+		const pitchKey = `${step}${octave}`;
+		const impliedAlter = measureAlters.get(pitchKey) ?? keySignatureAlters(this.key)[step];
+		const accidental = alter !== impliedAlter ? ABC_ACCIDENTALS[alter] : '';
+		measureAlters.set(pitchKey, alter);
+
+		let noteStr = step;
 
 		// ABC notation: middle C (C4) is written as 'C'
 		// C5 is 'c', C6 is 'c'', C3 is 'C,', C2 is 'C,,'
-		if (note.octave >= 5) {
-			// Make the note letter lowercase (handle sharps: ^C -> ^c)
-			noteStr = baseNote.replace(/([A-G])/, (match) => match.toLowerCase());
-			if (note.octave > 5) {
-				noteStr += "'".repeat(note.octave - 5);
+		if (octave >= 5) {
+			noteStr = step.toLowerCase();
+			if (octave > 5) {
+				noteStr += "'".repeat(octave - 5);
 			}
-		} else if (note.octave < 4) {
+		} else if (octave < 4) {
 			// Octave 3 and below add commas
-			noteStr += ','.repeat(4 - note.octave);
+			noteStr += ','.repeat(4 - octave);
 		}
 
-		const durationSuffix = this.getDurationSuffix(note.duration);
-		return `${noteStr}${durationSuffix}`;
+		return accidental + noteStr;
 	}
 
-	private getDurationSuffix(duration: number): string {
-		// Convert duration in seconds to note length relative to 1/8 note
-		// At 120 BPM, one beat (quarter note) = 0.5 seconds
-		// An eighth note = 0.25 seconds
-		const eighthNoteDuration = 60 / this.bpm / 2;
-		const relativeLength = duration / eighthNoteDuration;
-
-		// Round to nearest standard note length
-		if (relativeLength <= 0.75) return ''; // eighth note (default)
-		if (relativeLength <= 1.5) return ''; // still counts as eighth
-		if (relativeLength <= 3) return '2'; // quarter note
-		if (relativeLength <= 6) return '4'; // half note
-		return '8'; // whole note
+	private getLengthSuffix(units: number): string {
+		// Convert grid units to a multiple of the default note length (L:)
+		const { unitsPerQuarter } = this.layout.getSettings();
+		const numerator = units * this.defaultNoteLength;
+		const denominator = unitsPerQuarter * 4;
+		const divisor = this.gcd(numerator, denominator);
+		const [num, den] = [numerator / divisor, denominator / divisor];
+
+		// 1 -> '', 2 -> '2', 1/2 -> '/', 3/2 -> '3/2'
+		if (den === 1) return num === 1 ? '' : String(num);
+		if (num === 1 && den === 2) return '/';
+		return `${num === 1 ? '' : num}/${den}`;
 	}
 
-	private durationToEighths(duration: number): number {
-		const eighthNoteDuration = 60 / this.bpm / 2;
-		const relativeLength = duration / eighthNoteDuration;
-
-		if (relativeLength <= 1.5) return 1;
-		if (relativeLength <= 3) return 2;
-		if (relativeLength <= 6) return 4;
-		return 8;
+	private gcd(a: number, b: number): number {
+		return b === 0 ? a : this.gcd(b, a % b);
 	}
 }
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { AbcParser } from '$lib/notation/AbcParser';
+
+// A quarter note lasts a second, so note times read as beats
+const HEADER = ['X:1', 'M:4/4', 'L:1/4', 'Q:1/4=60'];
+
+function parse(...lines: string[]): [number, number, number][] {
+	return new AbcParser()
+		.parse([...HEADER, ...lines].join('\n'))
+		.notes.map((note) => [note.midiNumber, note.startTime, note.duration]);
+}
+
+function expectNotes(actual: [number, number, number][], expected: [number, number, number][]): void {
+	expect(actual).toHaveLength(expected.length);
+	actual.forEach(([midi, start, duration], i) => {
+		expect(midi).toBe(expected[i][0]);
+		expect(start).toBeCloseTo(expected[i][1], 9);
+		expect(duration).toBeCloseTo(expected[i][2], 9);
+	});
+}
+
+describe('AbcParser', () => {
+	it('reads the first voice declared in the header', () => {
+		expectNotes(parse('V:1', 'V:2', 'K:C', '[V:1] C D E F|', '[V:2] C, D, E, F,|'), [
+			[60, 0, 1],
+			[62, 1, 1],
+			[64, 2, 1],
+			[65, 3, 1]
+		]);
+	});
+
+	it('leaves out a second voice that starts partway through a line', () => {
+		expectNotes(parse('K:C', '[V:1] C D E F| [V:2] C, D, E, F,|', '[V:1] G4|'), [
+			[60, 0, 1],
+			[62, 1, 1],
+			[64, 2, 1],
+			[65, 3, 1],
+			[67, 4, 4]
+		]);
+	});
+
+	it('joins tied notes of the same pitch, across barlines too', () => {
+		expectNotes(parse('K:C', 'C2 D2-|D C- E2|'), [
+			[60, 0, 2],
+			[62, 2, 3],
+			[60, 5, 1],
+			[64, 6, 2]
+		]);
+	});
+
+	it('fits tuplets into the time of their normal notes', () => {
+		expectNotes(parse('K:C', '(3CDE F (3:2:2G2A|'), [
+			[60, 0, 2 / 3],
+			[62, 2 / 3, 2 / 3],
+			[64, 4 / 3, 2 / 3],
+			[65, 2, 1],
+			[67, 3, 4 / 3],
+			[69, 13 / 3, 2 / 3]
+		]);
+	});
+
+	it('dots one note of a broken rhythm pair and shortens the other', () => {
+		expectNotes(parse('K:C', 'C>D E<F G>>A'), [
+			[60, 0, 1.5],
+			[62, 1.5, 0.5],
+			[64, 2, 0.5],
+			[65, 2.5, 1.5],
+			[67, 4, 1.75],
+			[69, 5.75, 0.25]
+		]);
+	});
+});
@@ -0,0 +1,397 @@
+import type { ImportedScore, KeySignature, TempoChange, TimeSignature } from '$lib/types';
+import { keySignatureAlters } from '$lib/notation/KeySignatures';
+import { midiToPitch } from '$lib/notation/NotePitch';
+import { TempoMap } from '$lib/notation/TempoMap';
+
+// Uppercase letters are the octave from middle C up
+const LETTER_MIDI: Record<string, number> = { C: 60, D: 62, E: 64, F: 65, G: 67, A: 69, B: 71 };
+const DEFAULT_BPM = 120;
+
+// Semitones from a mode's tonic down to the major key with the same signature
+const MODE_OFFSETS: Record<string, number> = { ion: 0, maj: 0, dor: 2, phr: 4, lyd: 5, mix: 7, loc: 11 };
+
+// Second number of a (p tuplet when the file leaves it out: p notes in the time of q
+const TUPLET_NORMALS: Record<number, number> = { 2: 3, 3: 2, 4: 3, 6: 2, 8: 3 };
+
+interface ScoreNote {
+	midi: number;
+	beat: number; // quarter-note beats from the start of the tune
+	length: number;
+}
+
+/**
+ * Reads the first tune of an ABC file as a single melody line. Repeats are
+ * read as written rather than expanded, chords keep their top note, and
+ * grace notes, decorations, chord symbols and lyrics are skipped.
+ */
+export class AbcParser {
+	private title: string | null = null;
+	private key: KeySignature | null = null;
+	private keyAlters: Record<string, number> = {};
+	private barAlters = new Map<number, number>(); // natural MIDI note -> accidental
+	private meter: TimeSignature | null = null;
+	private unitLength: number | null = null; // fraction of a whole note
+	private tempoChanges: TempoChange[] = [];
+	private melodyVoice: string | null = null;
+	private inMelodyVoice = true;
+
+	private notes: ScoreNote[] = [];
+	private beat = 0;
+	private tiePending = false;
+	private nextFactor = 1; // length scale for the note after a broken rhythm
+	private tuplet: { factor: number; remaining: number } | null = null;
+	private lastEvent: { length: number; note: ScoreNote | null } | null = null;
+
+	parse(text: string): ImportedScore {
+		this.reset();
+
+		let inBody = false;
+		for (const rawLine of text.split(/\r?\n/)) {
+			const line = rawLine.replace(/%.*$/, '');
+			const field = line.match(/^([A-Za-z]):(?!\|)\s*(.*)$/);
+			if (field) {
+				const [, name, value] = field;
+				// Only the first tune of a tunebook
+				if (name === 'X' && inBody) break;
+				this.applyField(name, value.trim());
+				if (name === 'K') inBody = true;
+				continue;
+			}
+			if (inBody) {
+				this.parseMusic(line);
+			}
+		}
+
+		if (this.notes.length === 0) {
+			throw new Error('No notes found in this ABC file.');
+		}
+
+		const tempoMap = new TempoMap(this.tempoChanges.length > 0 ? this.tempoChanges : [{ beat: 0, bpm: DEFAULT_BPM }]);
+		return {
+			title: this.title,
+			notes: this.notes.map((note) => {
+				const startTime = tempoMap.beatsToSeconds(note.beat);
+				return {
+					...midiToPitch(note.midi),
+					startTime,
+					duration: tempoMap.beatsToSeconds(note.beat + note.length) - startTime
+				};
+			}),
+			tempoChanges: tempoMap.getChanges(),
+			key: this.key,
+			timeSignature: this.meter
+		};
+	}
+
+	private reset(): void {
+		this.title = null;
+		this.key = null;
+		this.keyAlters = keySignatureAlters({ tonic: 0, mode: 'major' });
+		this.barAlters.clear();
+		this.meter = null;
+		this.unitLength = null;
+		this.tempoChanges = [];
+		this.melodyVoice = null;
+		this.inMelodyVoice = true;
+		this.notes = [];
+		this.beat = 0;
+		this.tiePending = false;
+		this.nextFactor = 1;
+		this.tuplet = null;
+		this.lastEvent = null;
+	}
+
+	/**
+	 * Header fields, body field lines and inline [X:...] fields
+	 */
+	private applyField(name: string, value: string): void {
+		switch (name) {
+			case 'T':
+				if (this.title === null && value) this.title = value;
+				break;
+			case 'M':
+				this.meter = this.parseMeter(value);
+				break;
+			case 'L': {
+				const match = value.match(/^(\d+)\s*\/\s*(\d+)/);
+				if (match) this.unitLength = Number(match[1]) / Number(match[2]);
+				break;
+			}
+			case 'Q':
+				this.parseTempo(value);
+				break;
+			case 'K':
+				this.key = this.parseKey(value);
+				this.keyAlters = keySignatureAlters(this.key ?? { tonic: 0, mode: 'major' });
+				break;
+			case 'V': {
+				// The first voice is the melody, the rest are accompaniment
+				const id = value.split(/\s/)[0];
+				this.melodyVoice ??= id;
+				this.inMelodyVoice = id === this.melodyVoice;
+				break;
+			}
+		}
+	}
+
+	private parseMeter(value: string): TimeSignature | null {
+		if (value === 'C') return { beats: 4, beatType: 4 };
+		if (value === 'C|') return { beats: 2, beatType: 2 };
+		const match = value.match(/^(\d+)\s*\/\s*(\d+)/);
+		return match ? { beats: Number(match[1]), beatType: Number(match[2]) } : null;
+	}
+
+	/**
+	 * Q:1/4=120 or Q:3/8=60 give the beat explicitly, a bare Q:120 counts unit lengths
+	 */
+	private parseTempo(value: string): void {
+		let bpm: number | null = null;
+		const explicit = value.match(/(\d+)\s*\/\s*(\d+)\s*=\s*(\d+(?:\.\d+)?)/);
+		const bare = value.match(/^(\d+(?:\.\d+)?)$/);
+		if (explicit) {
+			bpm = Number(explicit[3]) * ((Number(explicit[1]) / Number(explicit[2])) * 4);
+		} else if (bare) {
+			bpm = Number(bare[1]) * this.getUnitLength() * 4;
+		}
+		if (bpm === null || bpm <= 0) return;
+
+		const last = this.tempoChanges[this.tempoChanges.length - 1];
+		if (last && Math.abs(last.beat - this.beat) < 1e-9) {
+			last.bpm = bpm;
+		} else {
+			this.tempoChanges.push({ beat: this.beat, bpm });
+		}
+	}
+
+	/**
+	 * Modes other than major and minor become the major key with the same
+	 * signature, e.g. D dorian reads as C major
+	 */
+	private parseKey(value: string): KeySignature | null {
+		const match = value.match(/^([A-G])([#b]?)\s*([A-Za-z]*)/);
+		if (!match) return null; // K:none, bagpipe keys
+
+		const [, letter, accidental, modeName] = match;
+		const tonic = (LETTER_MIDI[letter] + (accidental === '#' ? 1 : accidental === 'b' ? -1 : 0) + 12) % 12;
+		const mode = modeName.toLowerCase();
+		if (mode === 'm' || mode.startsWith('min') || mode.startsWith('aeo')) {
+			return { tonic, mode: 'minor' };
+		}
+		const offset = MODE_OFFSETS[mode.slice(0, 3)] ?? 0;
+		return { tonic: (tonic - offset + 12) % 12, mode: 'major' };
+	}
+
+	/**
+	 * The L: default: sixteenths for meters shorter than 3/4, otherwise eighths
+	 */
+	private getUnitLength(): number {
+		if (this.unitLength !== null) return this.unitLength;
+		const meter = this.meter;
+		return meter && meter.beats / meter.beatType < 0.75 ? 1 / 16 : 1 / 8;
+	}
+
+	private parseMusic(line: string): void {
+		let i = 0;
+		while (i < line.length) {
+			const char = line[i];
+
+			if (char === '[' && /^[A-Za-z]:/.test(line.slice(i + 1, i + 3))) {
+				const end = this.findClosing(line, i, ']');
+				this.applyField(line[i + 1], line.slice(i + 3, end).trim());
+				i = end + 1;
+			} else if (char === '"' || char === '!' || char === '+' || char === '{') {
+				// Chord symbols, annotations, decorations and grace notes
+				i = this.findClosing(line, i, char === '{' ? '}' : char) + 1;
+			} else if (!this.inMelodyVoice) {
+				// Other voices' music, up to the next voice switch
+				i++;
+			} else if (char === '|' || char === ':' || (char === '[' && /[|0-9]/.test(line[i + 1] ?? ''))) {
+				// Barlines, repeat signs and first/second ending marks
+				this.barAlters.clear();
+				i++;
+				while (i < line.length && /[|:\]0-9,]/.test(line[i])) i++;
+			} else if (char === '(' && /\d/.test(line[i + 1] ?? '')) {
+				i = this.parseTuplet(line, i + 1);
+			} else if (char === '>' || char === '<') {
+				i = this.parseBrokenRhythm(line, i);
+			} else if (char === '-') {
+				this.tiePending = true;
+				i++;
+			} else if (char === '[') {
+				i = this.parseChord(line, i + 1);
+			} else if (/[\^_=A-Ga-g]/.test(char)) {
+				const pitch = this.readPitch(line, i);
+				const [multiplier, next] = this.readLength(line, pitch.next);
+				this.addEvent(pitch.midi, multiplier * this.getUnitLength() * 4);
+				i = next;
+			} else if (char === 'z' || char === 'x') {
+				const [multiplier, next] = this.readLength(line, i + 1);
+				this.addEvent(null, multiplier * this.getUnitLength() * 4);
+				i = next;
+			} else if (char === 'Z' || char === 'X') {
+				// Whole-bar rests, optionally for several bars
+				const [bars, next] = this.readLength(line, i + 1);
+				const meter = this.meter ?? { beats: 4, beatType: 4 };
+				this.addEvent(null, (bars * meter.beats * 4) / meter.beatType);
+				i = next;
+			} else {
+				i++;
+			}
+		}
+	}
+
+	private findClosing(line: string, start: number, close: string): number {
+		const end = line.indexOf(close, start + 1);
+		return end === -1 ? line.length : end;
+	}
+
+	/**
+	 * (p, (p:q or (p:q:r - the next r notes play p in the time of q
+	 */
+	private parseTuplet(line: string, start: number): number {
+		const match = line.slice(start).match(/^(\d+)(?::(\d*))?(?::(\d*))?/)!;
+		const p = Number(match[1]);
+		const compound = this.meter !== null && this.meter.beatType === 8 && this.meter.beats % 3 === 0;
+		const q = match[2] ? Number(match[2]) : (TUPLET_NORMALS[p] ?? (compound ? 3 : 2));
+		const r = match[3] ? Number(match[3]) : p;
+		if (p > 0 && r > 0) {
+			this.tuplet = { factor: q / p, remaining: r };
+		}
+		return start + match[0].length;
+	}
+
+	/**
+	 * a>b dots the first note and halves the second, a<b the other way round;
+	 * doubled signs (>>) double-dot
+	 */
+	private parseBrokenRhythm(line: string, start: number): number {
+		const sign = line[start];
+		let count = 0;
+		while (line[start + count] === sign) count++;
+
+		const short = 0.5 ** count;
+		const long = 2 - short;
+		const [previous, next] = sign === '>' ? [long, short] : [short, long];
+
+		const last = this.lastEvent;
+		if (last) {
+			const change = last.length * (previous - 1);
+			last.length += change;
+			if (last.note) last.note.length += change;
+			this.beat += change;
+			this.nextFactor = next;
+		}
+		return start + count;
+	}
+
+	/**
+	 * [CEG] plays as its highest note, for the length of its first note
+	 */
+	private parseChord(line: string, start: number): number {
+		let i = start;
+		let top: number | null = null;
+		let length: number | null = null;
+
+		while (i < line.length && line[i] !== ']') {
+			if (/[\^_=A-Ga-g]/.test(line[i])) {
+				const pitch = this.readPitch(line, i);
+				const [multiplier, next] = this.readLength(line, pitch.next);
+				top = Math.max(top ?? pitch.midi, pitch.midi);
+				length ??= multiplier;
+				i = next;
+			} else {
+				if (line[i] === '-') this.tiePending = true;
+				i++;
+			}
+		}
+
+		const [multiplier, next] = this.readLength(line, i + 1);
+		if (top !== null) {
+			this.addEvent(top, (length ?? 1) * multiplier * this.getUnitLength() * 4);
+		}
+		return next;
+	}
+
+	/**
+	 * Accidentals, letter and octave marks. Accidentals carry through the bar
+	 * for notes at the same staff position.
+	 */
+	private readPitch(line: string, start: number): { midi: number; next: number } {
+		let i = start;
+		let accidental: number | null = null;
+		const prefix = line.slice(i).match(/^(\^\^|\^|__|_|=)/);
+		if (prefix) {
+			accidental = { '^^': 2, '^': 1, __: -2, _: -1, '=': 0 }[prefix[1]]!;
+			i += prefix[1].length;
+		}
+
+		const letter = line[i];
+		let natural = LETTER_MIDI[letter.toUpperCase()] + (letter === letter.toLowerCase() ? 12 : 0);
+		i++;
+		while (line[i] === "'" || line[i] === ',') {
+			natural += line[i] === "'" ? 12 : -12;
+			i++;
+		}
+
+		if (accidental !== null) {
+			this.barAlters.set(natural, accidental);
+		}
+		const alter = this.barAlters.get(natural) ?? this.keyAlters[letter.toUpperCase()] ?? 0;
+		return { midi: natural + alter, next: i };
+	}
+
+	/**
+	 * Length multiplier after a note: 2, 3/2, /2, / (a half) or // (a quarter)
+	 */
+	private readLength(line: string, start: number): [number, number] {
+		let i = start;
+		const digits = line.slice(i).match(/^\d+/);
+		const numerator = digits ? Number(digits[0]) : 1;
+		if (digits) i += digits[0].length;
+
+		let denominator = 1;
+		while (line[i] === '/') {
+			i++;
+			const divisor = line.slice(i).match(/^\d+/);
+			if (divisor) {
+				denominator *= Number(divisor[0]);
+				i += divisor[0].length;
+			} else {
+				denominator *= 2;
+			}
+		}
+		return [numerator / denominator, i];
+	}
+
+	/**
+	 * Place a note (or a rest, for null) at the current position
+	 */
+	private addEvent(midi: number | null, baseLength: number): void {
+		let length = baseLength * this.nextFactor;
+		this.nextFactor = 1;
+		if (this.tuplet) {
+			length *= this.tuplet.factor;
+			if (--this.tuplet.remaining === 0) this.tuplet = null;
+		}
+
+		let note: ScoreNote | null = null;
+		if (midi !== null) {
+			const previous = this.notes[this.notes.length - 1];
+			const tied =
+				this.tiePending &&
+				previous?.midi === midi &&
+				Math.abs(previous.beat + previous.length - this.beat) < 1e-9;
+			if (tied) {
+				previous.length += length;
+				note = previous;
+			} else {
+				note = { midi, beat: this.beat, length };
+				this.notes.push(note);
+			}
+		}
+
+		this.tiePending = false;
+		this.lastEvent = { length, note };
+		this.beat += length;
+	}
+}
@@ -0,0 +1,179 @@
+import type { DetectedNote } from '$lib/types';
+
+export interface BeatGrid {
+	bpm: number;
+	phase: number; // time of one beat in seconds, in the notes' timebase
+}
+
+const DEFAULT_BPM = 120;
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+
+const ENVELOPE_RATE = 100; // onset envelope samples per second
+const ONSET_WIDTH = 0.02; // seconds, spread of each onset in the envelope
+const PHASE_TOLERANCE = 0.05; // seconds, how far an onset may sit from a beat and still count
+const PHASE_STEP = 0.01; // seconds between candidate phases
+
+// Beat-following: how far from a predicted beat an onset may land (as a
+// fraction of the period) and how strongly it pulls the phase and period
+const FOLLOW_WINDOW = 0.2;
+const PHASE_GAIN = 0.5;
+const PERIOD_GAIN = 0.25;
+const MAX_PERIOD_CHANGE = 0.4; // fraction of the starting period
+
+// Listeners favour tempos near 120 BPM; weight lags by a log-Gaussian
+// around that period so the tracker picks the most natural tempo octave
+const PREFERRED_PERIOD = 0.5; // seconds
+const PERIOD_SPREAD = 1; // octaves
+
+/**
+ * Estimates tempo and beat phase from note onsets by autocorrelating an
+ * onset-strength envelope, then aligning a beat grid to the strongest onsets
+ */
+export class BeatTracker {
+	track(notes: DetectedNote[]): BeatGrid {
+		if (notes.length < 2) {
+			return { bpm: DEFAULT_BPM, phase: notes[0]?.startTime ?? 0 };
+		}
+
+		const bpm = this.estimateTempo(notes);
+		return { bpm, phase: this.estimatePhase(notes, bpm) };
+	}
+
+	/**
+	 * Find the beat phase that best fits the onsets for a given tempo
+	 */
+	estimatePhase(notes: DetectedNote[], bpm: number): number {
+		if (notes.length === 0) return 0;
+
+		const period = 60 / bpm;
+		let bestPhase = notes[0].startTime;
+		let bestScore = -Infinity;
+
+		for (let offset = 0; offset < period; offset += PHASE_STEP) {
+			const phase = notes[0].startTime + offset;
+			let score = 0;
+
+			for (const note of notes) {
+				// Distance from the onset to the nearest beat of this grid
+				const position = (((note.startTime - phase) % period) + period) % period;
+				const distance = Math.min(position, period - position);
+				score += this.onsetStrength(note) * Math.exp(-(distance ** 2) / (2 * PHASE_TOLERANCE ** 2));
+			}
+
+			if (score > bestScore) {
+				bestScore = score;
+				bestPhase = phase;
+			}
+		}
+
+		return bestPhase;
+	}
+
+	/**
+	 * Follow the beat through the take, letting onsets near each predicted
+	 * beat nudge the phase and period. Returns the time of every beat from
+	 * origin until the last note ends.
+	 */
+	trackBeats(notes: DetectedNote[], bpm: number, origin: number): number[] {
+		const startPeriod = 60 / bpm;
+		const minPeriod = startPeriod * (1 - MAX_PERIOD_CHANGE);
+		const maxPeriod = startPeriod * (1 + MAX_PERIOD_CHANGE);
+		const end = Math.max(...notes.map((n) => n.startTime + n.duration));
+
+		const beats = [origin];
+		let period = startPeriod;
+		let beat = origin;
+
+		while (beat < end) {
+			let predicted = beat + period;
+			const window = period * FOLLOW_WINDOW;
+
+			// Closest onset to the prediction, favouring stronger ones
+			let best: { error: number; score: number } | null = null;
+			for (const note of notes) {
+				const error = note.startTime - predicted;
+				if (Math.abs(error) > window) continue;
+				const score = this.onsetStrength(note) * (1 - Math.abs(error) / window);
+				if (!best || score > best.score) {
+					best = { error, score };
+				}
+			}
+
+			if (best) {
+				predicted += PHASE_GAIN * best.error;
+				period = Math.max(minPeriod, Math.min(maxPeriod, period + PERIOD_GAIN * best.error));
+			}
+
+			beats.push(predicted);
+			beat = predicted;
+		}
+
+		return beats;
+	}
+
+	private estimateTempo(notes: DetectedNote[]): number {
+		const envelope = this.onsetEnvelope(notes);
+		const minLag = Math.floor((60 / MAX_BPM) * ENVELOPE_RATE);
+		const maxLag = Math.ceil((60 / MIN_BPM) * ENVELOPE_RATE);
+
+		const scores: number[] = [];
+		let bestLag = 0;
+		let bestScore = 0;
+
+		for (let lag = minLag; lag <= maxLag && lag < envelope.length; lag++) {
+			let sum = 0;
+			for (let i = 0; i + lag < envelope.length; i++) {
+				sum += envelope[i] * envelope[i + lag];
+			}
+			// Unbiased estimate so short lags don't win just by overlapping more
+			const autocorrelation = sum / (envelope.length - lag);
+			const prior = Math.exp(-0.5 * (Math.log2(lag / ENVELOPE_RATE / PREFERRED_PERIOD) / PERIOD_SPREAD) ** 2);
+			scores[lag] = autocorrelation * prior;
+
+			if (scores[lag] > bestScore) {
+				bestScore = scores[lag];
+				bestLag = lag;
+			}
+		}
+
+		if (bestLag === 0) return DEFAULT_BPM;
+
+		// Parabolic interpolation around the peak for sub-sample precision
+		const before = scores[bestLag - 1] ?? bestScore;
+		const after = scores[bestLag + 1] ?? bestScore;
+		const curvature = before - 2 * bestScore + after;
+		const refinedLag = curvature < 0 ? bestLag + (0.5 * (before - after)) / curvature : bestLag;
+
+		const bpm = 60 / (refinedLag / ENVELOPE_RATE);
+		return Math.max(MIN_BPM, Math.min(MAX_BPM, Math.round(bpm)));
+	}
+
+	private onsetEnvelope(notes: DetectedNote[]): number[] {
+		const start = notes[0].startTime;
+		const end = notes[notes.length - 1].startTime;
+		// Leave room for the longest lag after the last onset
+		const length = Math.ceil((end - start + 60 / MIN_BPM) * ENVELOPE_RATE) + 1;
+		const envelope = new Array(length).fill(0);
+		const spread = Math.ceil(3 * ONSET_WIDTH * ENVELOPE_RATE);
+
+		for (const note of notes) {
+			const center = (note.startTime - start) * ENVELOPE_RATE;
+			const strength = this.onsetStrength(note);
+			const first = Math.max(0, Math.floor(center) - spread);
+			const last = Math.min(length - 1, Math.ceil(center) + spread);
+
+			for (let i = first; i <= last; i++) {
+				const distance = (i - center) / ENVELOPE_RATE;
+				envelope[i] += strength * Math.exp(-(distance ** 2) / (2 * ONSET_WIDTH ** 2));
+			}
+		}
+
+		return envelope;
+	}
+
+	private onsetStrength(note: DetectedNote): number {
+		// Longer notes mark stronger beats; cap so a single held note doesn't dominate
+		return 1 + Math.min(note.duration, 1);
+	}
+}
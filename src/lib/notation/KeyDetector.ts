@@ -0,0 +1,63 @@
+import type { DetectedNote, KeySignature } from '$lib/types';
+import { ALL_KEYS } from '$lib/notation/KeySignatures';
+
+// Krumhansl-Kessler key profiles, starting from the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const DEFAULT_KEY: KeySignature = { tonic: 0, mode: 'major' };
+
+export class KeyDetector {
+	/**
+	 * Estimate the key by correlating a duration-weighted pitch-class
+	 * histogram against the major and minor profiles for every tonic
+	 */
+	detect(notes: DetectedNote[]): KeySignature {
+		if (notes.length === 0) return DEFAULT_KEY;
+
+		const histogram = this.pitchClassHistogram(notes);
+		if (histogram.every((weight) => weight === 0)) return DEFAULT_KEY;
+
+		let bestKey = DEFAULT_KEY;
+		let bestScore = -Infinity;
+
+		for (const key of ALL_KEYS) {
+			const profile = key.mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE;
+			// Rotate the profile so index 0 lines up with pitch class C
+			const rotated = profile.map((_, i) => profile[(i - key.tonic + 12) % 12]);
+			const score = this.correlation(histogram, rotated);
+
+			if (score > bestScore) {
+				bestScore = score;
+				bestKey = key;
+			}
+		}
+
+		return bestKey;
+	}
+
+	private pitchClassHistogram(notes: DetectedNote[]): number[] {
+		const histogram = new Array(12).fill(0);
+		for (const note of notes) {
+			const pitchClass = ((note.midiNumber % 12) + 12) % 12;
+			histogram[pitchClass] += note.duration;
+		}
+		return histogram;
+	}
+
+	private correlation(a: number[], b: number[]): number {
+		const meanA = a.reduce((sum, x) => sum + x, 0) / a.length;
+		const meanB = b.reduce((sum, x) => sum + x, 0) / b.length;
+
+		let covariance = 0;
+		let varianceA = 0;
+		let varianceB = 0;
+		for (let i = 0; i < a.length; i++) {
+			covariance += (a[i] - meanA) * (b[i] - meanB);
+			varianceA += (a[i] - meanA) ** 2;
+			varianceB += (b[i] - meanB) ** 2;
+		}
+
+		return varianceA === 0 || varianceB === 0 ? 0 : covariance / Math.sqrt(varianceA * varianceB);
+	}
+}
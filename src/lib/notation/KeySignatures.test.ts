@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { keyFifths, keySignatureAlters, keyToAbc, spellMidi } from '$lib/notation/KeySignatures';
+import type { KeySignature } from '$lib/types';
+
+const minor = (tonic: number): KeySignature => ({ tonic, mode: 'minor' });
+
+describe('keyFifths', () => {
+	it('matches the spelled tonic of every minor key', () => {
+		const expected: Record<string, number> = {
+			Cm: -3,
+			'C#m': 4,
+			Dm: -1,
+			Ebm: -6,
+			Em: 1,
+			Fm: -4,
+			'F#m': 3,
+			Gm: -2,
+			'G#m': 5,
+			Am: 0,
+			Bbm: -5,
+			Bm: 2
+		};
+		const fifths = Object.fromEntries(
+			Array.from({ length: 12 }, (_, tonic) => [keyToAbc(minor(tonic)), keyFifths(minor(tonic))])
+		);
+		expect(fifths).toEqual(expected);
+	});
+
+	it('gives major keys their usual signatures', () => {
+		const fifths = Array.from({ length: 12 }, (_, tonic) => keyFifths({ tonic, mode: 'major' }));
+		expect(fifths).toEqual([0, -5, 2, -3, 4, -1, 6, 1, -4, 3, -2, 5]);
+	});
+
+	it('spells Eb minor with flats the signature already carries', () => {
+		const key = minor(3);
+		expect(keySignatureAlters(key)).toMatchObject({ B: -1, E: -1, A: -1, D: -1, G: -1, C: -1 });
+		expect(spellMidi(63, key)).toEqual({ step: 'E', alter: -1, octave: 4 });
+		expect(spellMidi(66, key)).toEqual({ step: 'G', alter: -1, octave: 4 });
+	});
+});
@@ -0,0 +1,136 @@
+import type { KeySignature, SpelledPitch } from '$lib/types';
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_PITCH_CLASSES = [0, 2, 4, 5, 7, 9, 11];
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+const MINOR_SCALE = [0, 2, 3, 5, 7, 8, 10];
+
+// Conventional tonic spelling for each pitch class, preferring the key
+// with fewer accidentals (F# major over Gb, Eb minor over D# minor)
+const MAJOR_TONICS = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const MINOR_TONICS = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'G#', 'A', 'Bb', 'B'];
+
+// Place of each natural on the circle of fifths, counted from C
+const LETTER_FIFTHS: Record<string, number> = { F: -1, C: 0, G: 1, D: 2, A: 3, E: 4, B: 5 };
+
+export const ALL_KEYS: KeySignature[] = [
+	...Array.from({ length: 12 }, (_, tonic) => ({ tonic, mode: 'major' as const })),
+	...Array.from({ length: 12 }, (_, tonic) => ({ tonic, mode: 'minor' as const }))
+];
+
+/**
+ * Number of sharps (positive) or flats (negative) in the key signature
+ */
+export function keyFifths(key: KeySignature): number {
+	// Follows the tonic's spelling, so Eb minor gets six flats rather than
+	// the six sharps of D# minor. A sharp or flat on the tonic moves it seven
+	// fifths; a minor key takes the signature of its relative major, three
+	// fifths below the tonic.
+	const tonic = tonicName(key);
+	const accidental = tonic[1] === '#' ? 7 : tonic[1] === 'b' ? -7 : 0;
+	return LETTER_FIFTHS[tonic[0]] + accidental - (key.mode === 'minor' ? 3 : 0);
+}
+
+/**
+ * Key name as used in the ABC K: field, e.g. 'Eb' or 'F#m'
+ */
+export function keyToAbc(key: KeySignature): string {
+	return key.mode === 'major' ? tonicName(key) : `${tonicName(key)}m`;
+}
+
+/**
+ * Human-readable key name, e.g. 'E♭ major'
+ */
+export function keyLabel(key: KeySignature): string {
+	const tonic = tonicName(key);
+	return `${tonic.replace('#', '♯').replace('b', '♭')} ${key.mode}`;
+}
+
+export function keysEqual(a: KeySignature, b: KeySignature): boolean {
+	return a.tonic === b.tonic && a.mode === b.mode;
+}
+
+/**
+ * Alteration the key signature applies to each letter, e.g. { B: -1 } in F major
+ */
+export function keySignatureAlters(key: KeySignature): Record<string, number> {
+	const alters: Record<string, number> = Object.fromEntries(LETTERS.map((letter) => [letter, 0]));
+	const fifths = keyFifths(key);
+	const sharpOrder = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+	const flatOrder = [...sharpOrder].reverse();
+
+	for (let i = 0; i < Math.abs(fifths); i++) {
+		if (fifths > 0) alters[sharpOrder[i]] = 1;
+		else alters[flatOrder[i]] = -1;
+	}
+	return alters;
+}
+
+// Spelling tables are small and keys are reused, so cache them
+const spellingCache = new Map<string, { step: string; alter: number }[]>();
+
+/**
+ * Spell a MIDI note with the letter names the key implies
+ */
+export function spellMidi(midiNumber: number, key: KeySignature): SpelledPitch {
+	const pitchClass = ((midiNumber % 12) + 12) % 12;
+	const { step, alter } = getSpellingTable(key)[pitchClass];
+
+	// The octave follows the letter, so B#3 and C4 sound the same
+	const octave = Math.floor((midiNumber - alter) / 12) - 1;
+	return { step, alter, octave };
+}
+
+function getSpellingTable(key: KeySignature): { step: string; alter: number }[] {
+	const cacheKey = `${key.tonic}${key.mode}`;
+	const cached = spellingCache.get(cacheKey);
+	if (cached) return cached;
+
+	const table: ({ step: string; alter: number } | null)[] = Array(12).fill(null);
+	const tonicLetter = LETTERS.indexOf(tonicName(key)[0]);
+	const scale = key.mode === 'major' ? MAJOR_SCALE : MINOR_SCALE;
+
+	const spellDegree = (degree: number, interval: number) => {
+		const letterIndex = (tonicLetter + degree) % 7;
+		const pitchClass = (key.tonic + interval) % 12;
+		const alter = wrapAlter(pitchClass - LETTER_PITCH_CLASSES[letterIndex]);
+		table[pitchClass] ??= { step: LETTERS[letterIndex], alter };
+	};
+
+	scale.forEach((interval, degree) => spellDegree(degree, interval));
+
+	if (key.mode === 'minor') {
+		// Raised seventh and sixth of harmonic/melodic minor keep their letters
+		spellDegree(6, 11);
+		spellDegree(5, 9);
+	}
+
+	// Remaining chromatic notes: naturals where possible, otherwise
+	// sharps in sharp keys and flats in flat keys
+	const preferFlats = keyFifths(key) < 0;
+	for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+		if (table[pitchClass]) continue;
+		const natural = LETTER_PITCH_CLASSES.indexOf(pitchClass);
+		if (natural !== -1) {
+			table[pitchClass] = { step: LETTERS[natural], alter: 0 };
+		} else if (preferFlats) {
+			table[pitchClass] = { step: LETTERS[LETTER_PITCH_CLASSES.indexOf(pitchClass + 1)], alter: -1 };
+		} else {
+			table[pitchClass] = { step: LETTERS[LETTER_PITCH_CLASSES.indexOf(pitchClass - 1)], alter: 1 };
+		}
+	}
+
+	const result = table as { step: string; alter: number }[];
+	spellingCache.set(cacheKey, result);
+	return result;
+}
+
+function tonicName(key: KeySignature): string {
+	return (key.mode === 'major' ? MAJOR_TONICS : MINOR_TONICS)[key.tonic];
+}
+
+function wrapAlter(semitones: number): number {
+	// Map a pitch-class difference into the -5..6 range, i.e. -1 for 11
+	const wrapped = ((semitones % 12) + 12) % 12;
+	return wrapped > 6 ? wrapped - 12 : wrapped;
+}
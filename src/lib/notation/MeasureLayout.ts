@@ -0,0 +1,350 @@
+import type { DetectedNote, TimeSignature } from '$lib/types';
+import { beatUnits, measureUnits } from '$lib/notation/TimeSignatures';
+import { TempoMap } from '$lib/notation/TempoMap';
+
+export interface LayoutSettings {
+	unitsPerQuarter: number; // grid resolution, 12 fits both sixteenths and sixteenth triplets
+	measureUnits: number; // length of one measure in grid units
+	beatUnits: number; // length of one beat in grid units
+	triplets: boolean; // allow triplet rhythms, written as tuplets
+}
+
+export interface Tuplet {
+	actual: number; // notes played...
+	normal: number; // ...in the time of this many
+	count: number; // events in the group
+}
+
+export interface LayoutEvent {
+	note: DetectedNote | null; // null for rests
+	start: number; // offset within the measure, in grid units
+	duration: number; // sounding length in grid units
+	written: number; // notated value in grid units, always writable; longer than duration inside tuplets
+	tieStart: boolean; // tied to the next event
+	tieStop: boolean; // tied from the previous event
+	tuplet: Tuplet | null; // the group this event belongs to
+	tupletStart: boolean; // first event of its tuplet group
+	tupletStop: boolean; // last event of its tuplet group
+}
+
+export interface Measure {
+	events: LayoutEvent[];
+}
+
+const DEFAULT_SETTINGS: LayoutSettings = {
+	unitsPerQuarter: 12,
+	measureUnits: 48, // 4/4
+	beatUnits: 12,
+	triplets: false
+};
+
+// Written value of a triplet note relative to what it sounds
+const TUPLET_RATIO = 3 / 2;
+
+interface Segment {
+	note: DetectedNote | null;
+	start: number;
+	end: number;
+}
+
+/**
+ * Places notes on a rhythmic grid and splits them into measures, filling
+ * gaps with rests and tying notes across barlines
+ */
+export class MeasureLayout {
+	private tempoMap = TempoMap.constant(120);
+	private settings: LayoutSettings;
+
+	constructor(settings: Partial<LayoutSettings> = {}) {
+		this.settings = { ...DEFAULT_SETTINGS, ...settings };
+	}
+
+	setTempoMap(tempoMap: TempoMap): void {
+		this.tempoMap = tempoMap;
+	}
+
+	/**
+	 * Derive measure and beat lengths from a time signature
+	 */
+	setTimeSignature(meter: TimeSignature): void {
+		const { unitsPerQuarter } = this.settings;
+		this.settings.measureUnits = measureUnits(meter, unitsPerQuarter);
+		this.settings.beatUnits = beatUnits(meter, unitsPerQuarter);
+	}
+
+	/**
+	 * Let notes fall on triplet positions and write them as tuplets
+	 */
+	setTriplets(triplets: boolean): void {
+		this.settings.triplets = triplets;
+	}
+
+	getSettings(): LayoutSettings {
+		return { ...this.settings };
+	}
+
+	layout(notes: DetectedNote[]): Measure[] {
+		const segments = this.createSegments(notes);
+		if (segments.length === 0) return [];
+
+		const { measureUnits } = this.settings;
+		const tupletSlots = this.findTupletBeats(segments);
+		const totalUnits = Math.ceil(segments[segments.length - 1].end / measureUnits) * measureUnits;
+		const measures: Measure[] = [];
+
+		for (let measureStart = 0; measureStart < totalUnits; measureStart += measureUnits) {
+			const measureEnd = measureStart + measureUnits;
+			const events: LayoutEvent[] = [];
+
+			for (const segment of segments) {
+				const start = Math.max(segment.start, measureStart);
+				const end = Math.min(segment.end, measureEnd);
+				if (start >= end) continue;
+
+				const pieces = this.splitSpan(start - measureStart, end - measureStart, measureStart, tupletSlots);
+				pieces.forEach((piece, i) => {
+					const isNote = segment.note !== null;
+					events.push({
+						note: segment.note,
+						start: piece.start,
+						duration: piece.duration,
+						written: piece.written,
+						tieStop: isNote && (i > 0 || start > segment.start),
+						tieStart: isNote && (i < pieces.length - 1 || end < segment.end),
+						tuplet: null,
+						tupletStart: false,
+						tupletStop: false
+					});
+				});
+			}
+
+			this.groupTuplets(events, measureStart, tupletSlots);
+			measures.push({ events });
+		}
+
+		return measures;
+	}
+
+	/**
+	 * Smallest step notes snap to: a sixteenth, or a sixteenth triplet when
+	 * triplets are allowed in a meter counted in quarters
+	 */
+	private resolution(): number {
+		const { unitsPerQuarter, beatUnits, triplets } = this.settings;
+		return triplets && beatUnits === unitsPerQuarter ? unitsPerQuarter / 6 : unitsPerQuarter / 4;
+	}
+
+	/**
+	 * Beats whose rhythm needs a triplet grid, mapped to the tuplet slot
+	 * length: an eighth triplet when that suffices, otherwise a sixteenth triplet
+	 */
+	private findTupletBeats(segments: Segment[]): Map<number, number> {
+		const { unitsPerQuarter, beatUnits } = this.settings;
+		const slots = new Map<number, number>();
+		if (this.resolution() === unitsPerQuarter / 4) return slots;
+
+		const offsetsByBeat = new Map<number, number[]>();
+		for (const boundary of segments.flatMap((s) => [s.start, s.end])) {
+			const beat = Math.floor(boundary / beatUnits);
+			const offsets = offsetsByBeat.get(beat) ?? [];
+			offsets.push(boundary % beatUnits);
+			offsetsByBeat.set(beat, offsets);
+		}
+
+		for (const [beat, offsets] of offsetsByBeat) {
+			// Straight sixteenths need no tuplet
+			if (offsets.every((offset) => offset % (unitsPerQuarter / 4) === 0)) continue;
+			const eighthTriplet = unitsPerQuarter / 3;
+			const fitsEighths = offsets.every((offset) => offset % eighthTriplet === 0);
+			slots.set(beat, fitsEighths ? eighthTriplet : unitsPerQuarter / 6);
+		}
+
+		return slots;
+	}
+
+	/**
+	 * Break a span of a measure into pieces, writing beats that need a
+	 * triplet grid as tuplets and everything else as plain note values
+	 */
+	private splitSpan(
+		start: number,
+		end: number,
+		measureStart: number,
+		tupletSlots: Map<number, number>
+	): { start: number; duration: number; written: number }[] {
+		const { beatUnits } = this.settings;
+		const pieces: { start: number; duration: number; written: number }[] = [];
+		let offset = start;
+
+		while (offset < end) {
+			const beat = Math.floor((measureStart + offset) / beatUnits);
+			const slot = tupletSlots.get(beat);
+
+			if (slot !== undefined) {
+				// Triplet notes stay inside their beat
+				const beatEnd = Math.min(end, (beat + 1) * beatUnits - measureStart);
+				for (const duration of this.splitTuplet(beatEnd - offset, slot)) {
+					pieces.push({ start: offset, duration, written: duration * TUPLET_RATIO });
+					offset += duration;
+				}
+				continue;
+			}
+
+			// Plain values run until the next tuplet beat
+			let plainEnd = offset;
+			while (plainEnd < end && !tupletSlots.has(Math.floor((measureStart + plainEnd) / beatUnits))) {
+				plainEnd = Math.min(end, (Math.floor(plainEnd / beatUnits) + 1) * beatUnits);
+			}
+			for (const duration of this.splitDuration(offset, plainEnd - offset)) {
+				pieces.push({ start: offset, duration, written: duration });
+				offset += duration;
+			}
+		}
+
+		return pieces;
+	}
+
+	/**
+	 * Break a span inside a tuplet beat into whole slots whose written
+	 * value is writable, longest first
+	 */
+	private splitTuplet(length: number, slot: number): number[] {
+		const values = this.writableValues();
+		const pieces: number[] = [];
+
+		while (length > 0) {
+			let slots = Math.max(1, Math.floor(length / slot));
+			while (slots > 1 && !values.includes(slots * slot * TUPLET_RATIO)) slots--;
+			pieces.push(slots * slot);
+			length -= slots * slot;
+		}
+
+		return pieces;
+	}
+
+	/**
+	 * Mark the events of each tuplet beat as one group
+	 */
+	private groupTuplets(events: LayoutEvent[], measureStart: number, tupletSlots: Map<number, number>): void {
+		const { unitsPerQuarter, beatUnits } = this.settings;
+		const groups = new Map<number, LayoutEvent[]>();
+
+		for (const event of events) {
+			const beat = Math.floor((measureStart + event.start) / beatUnits);
+			if (!tupletSlots.has(beat)) continue;
+			const group = groups.get(beat) ?? [];
+			group.push(event);
+			groups.set(beat, group);
+		}
+
+		for (const [beat, group] of groups) {
+			// Three eighths in the time of two, or six sixteenths in the time of four
+			const actual = unitsPerQuarter / tupletSlots.get(beat)!;
+			const tuplet: Tuplet = { actual, normal: (actual * 2) / 3, count: group.length };
+			group.forEach((event, i) => {
+				event.tuplet = tuplet;
+				event.tupletStart = i === 0;
+				event.tupletStop = i === group.length - 1;
+			});
+		}
+	}
+
+	/**
+	 * Snap notes to the grid and fill the timeline with rests
+	 */
+	private createSegments(notes: DetectedNote[]): Segment[] {
+		const resolution = this.resolution();
+		const toUnits = (time: number) =>
+			Math.round((this.tempoMap.secondsToBeats(time) * this.settings.unitsPerQuarter) / resolution) * resolution;
+		const placed = [...notes]
+			.sort((a, b) => a.startTime - b.startTime)
+			.map((note) => ({
+				note,
+				start: Math.max(0, toUnits(note.startTime)),
+				end: toUnits(note.startTime + note.duration)
+			}));
+
+		// Keep onsets distinct and stop each note where the next begins
+		for (let i = 1; i < placed.length; i++) {
+			placed[i].start = Math.max(placed[i].start, placed[i - 1].start + resolution);
+		}
+		for (let i = 0; i < placed.length; i++) {
+			const nextStart = placed[i + 1]?.start ?? Infinity;
+			placed[i].end = Math.max(placed[i].start + resolution, Math.min(placed[i].end, nextStart));
+		}
+
+		const segments: Segment[] = [];
+		let cursor = 0;
+		for (const { note, start, end } of placed) {
+			if (start > cursor) {
+				segments.push({ note: null, start: cursor, end: start });
+			}
+			segments.push({ note, start, end });
+			cursor = end;
+		}
+
+		// Pad the final measure with a rest
+		const { measureUnits } = this.settings;
+		const paddedEnd = Math.ceil(cursor / measureUnits) * measureUnits;
+		if (paddedEnd > cursor) {
+			segments.push({ note: null, start: cursor, end: paddedEnd });
+		}
+
+		return segments;
+	}
+
+	/**
+	 * Break a span into writable note values (plain or dotted powers of two),
+	 * aligning each piece to its own length so beats stay readable
+	 */
+	private splitDuration(offset: number, length: number): number[] {
+		const { beatUnits } = this.settings;
+		const values = this.writableValues();
+		const pieces: number[] = [];
+
+		while (length > 0) {
+			// A piece starting off the beat runs at most to the next beat
+			const beatOffset = offset % beatUnits;
+			const limit = beatOffset === 0 ? length : Math.min(length, beatUnits - beatOffset);
+			const value =
+				values.find((v) => v <= limit && this.fitsBeat(offset, v)) ??
+				values.find((v) => v <= limit) ??
+				limit;
+			pieces.push(value);
+			offset += value;
+			length -= value;
+		}
+
+		return pieces;
+	}
+
+	private writableValues(): number[] {
+		const values: number[] = [];
+		// Whole note down to the grid resolution
+		for (let value = this.settings.unitsPerQuarter * 4; value >= 1; value /= 2) {
+			if (!Number.isInteger(value)) break;
+			const dotted = value * 1.5;
+			if (Number.isInteger(dotted) && dotted <= this.settings.measureUnits) values.push(dotted);
+			values.push(value);
+		}
+		return values.sort((a, b) => b - a);
+	}
+
+	private fitsBeat(offset: number, value: number): boolean {
+		// A value may start on its own alignment or finish exactly on a beat
+		// (so a sixteenth followed by a dotted eighth stays two notes)
+		const { beatUnits } = this.settings;
+		const endsOnBeat = (offset + value) % beatUnits === 0;
+		return (offset % beatUnits) % this.alignment(value) === 0 || endsOnBeat;
+	}
+
+	private alignment(value: number): number {
+		const { beatUnits, unitsPerQuarter } = this.settings;
+		// Whole beats (a dotted quarter in 6/8) start on any beat
+		if (value % beatUnits === 0) return beatUnits;
+		// Dotted values align to the plain value they extend
+		const isPlain = Number.isInteger(Math.log2((unitsPerQuarter * 4) / value));
+		const plain = isPlain ? value : (value / 3) * 2;
+		return Math.min(plain, beatUnits);
+	}
+}
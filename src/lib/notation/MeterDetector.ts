@@ -0,0 +1,104 @@
+import type { DetectedNote, TimeSignature } from '$lib/types';
+import { metersEqual } from '$lib/notation/TimeSignatures';
+
+// Metrical accent templates per eighth-note position in the measure:
+// the downbeat is strongest, then secondary beats, then offbeats
+const METER_TEMPLATES: { meter: TimeSignature; template: number[] }[] = [
+	{ meter: { beats: 2, beatType: 4 }, template: [3, 1, 2, 1] },
+	{ meter: { beats: 3, beatType: 4 }, template: [3, 1, 2, 1, 2, 1] },
+	{ meter: { beats: 4, beatType: 4 }, template: [4, 1, 2, 1, 3, 1, 2, 1] },
+	{ meter: { beats: 6, beatType: 8 }, template: [3, 1, 1, 2, 1, 1] }
+];
+
+const DEFAULT_METER: TimeSignature = { beats: 4, beatType: 4 };
+
+// Small head start for 4/4 so ambiguous takes keep the most common meter
+const DEFAULT_METER_BONUS = 0.05;
+
+export class MeterDetector {
+	/**
+	 * Estimate the meter from where accented onsets fall on the eighth-note
+	 * grid. Notes should be tempo-quantized with the first beat at time 0.
+	 */
+	detect(notes: DetectedNote[], bpm: number): TimeSignature {
+		if (notes.length < 4) return DEFAULT_METER;
+
+		const accents = this.accentSignal(notes, bpm);
+		let bestMeter = DEFAULT_METER;
+		let bestScore = -Infinity;
+
+		for (const { meter, template } of METER_TEMPLATES) {
+			const period = template.length;
+			const folded = this.fold(accents, period);
+			// How well accents line up with the template, and how strongly the
+			// accent pattern repeats at the measure length
+			const templateFit = this.correlation(folded, template);
+			const periodicity = this.autocorrelation(accents, period);
+			let score = templateFit * (0.5 + 0.5 * periodicity);
+
+			if (metersEqual(meter, DEFAULT_METER)) score += DEFAULT_METER_BONUS;
+
+			if (score > bestScore) {
+				bestScore = score;
+				bestMeter = meter;
+			}
+		}
+
+		return bestMeter;
+	}
+
+	/**
+	 * Accent strength per eighth note: onsets weighted by how long they ring
+	 */
+	private accentSignal(notes: DetectedNote[], bpm: number): number[] {
+		const eighth = 60 / bpm / 2;
+		const last = notes[notes.length - 1];
+		const length = Math.ceil((last.startTime + last.duration) / eighth) + 1;
+		const accents = new Array(length).fill(0);
+
+		for (const note of notes) {
+			const position = Math.round(note.startTime / eighth);
+			if (position < 0 || position >= length) continue;
+			// Longer notes tend to land on stronger beats; cap so one long note doesn't dominate
+			accents[position] += 1 + Math.min(note.duration / eighth, 4);
+		}
+
+		return accents;
+	}
+
+	private fold(signal: number[], period: number): number[] {
+		const folded = new Array(period).fill(0);
+		signal.forEach((value, i) => {
+			folded[i % period] += value;
+		});
+		return folded;
+	}
+
+	private autocorrelation(signal: number[], lag: number): number {
+		let product = 0;
+		let energy = 0;
+		for (let i = 0; i < signal.length; i++) {
+			energy += signal[i] * signal[i];
+			if (i + lag < signal.length) {
+				product += signal[i] * signal[i + lag];
+			}
+		}
+		return energy === 0 ? 0 : product / energy;
+	}
+
+	private correlation(a: number[], b: number[]): number {
+		const meanA = a.reduce((sum, x) => sum + x, 0) / a.length;
+		const meanB = b.reduce((sum, x) => sum + x, 0) / b.length;
+
+		let covariance = 0;
+		let varianceA = 0;
+		let varianceB = 0;
+		for (let i = 0; i < a.length; i++) {
+			covariance += (a[i] - meanA) * (b[i] - meanB);
+			varianceA += (a[i] - meanA) ** 2;
+			varianceB += (b[i] - meanB) ** 2;
+		}
+
+		return varianceA === 0 || varianceB === 0 ? 0 : covariance / Math.sqrt(varianceA * varianceB);
+	}
+}
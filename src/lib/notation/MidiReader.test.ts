@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { MidiReader } from '$lib/notation/MidiReader';
+
+const DIVISION = 96; // ticks per quarter note
+const END_OF_TRACK = [0x00, 0xff, 0x2f, 0x00];
+
+// A format 0 file holding one track of raw events
+function midiFile(events: number[]): Uint8Array {
+	const track = [...events, ...END_OF_TRACK];
+	const length = track.length;
+	return new Uint8Array([
+		...[0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0, DIVISION],
+		...[0x4d, 0x54, 0x72, 0x6b, length >>> 24, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff],
+		...track
+	]);
+}
+
+// C then D, a quarter each, written with running status
+const RUNNING_NOTES = [0x00, 0x90, 60, 100, DIVISION, 60, 0, 0x00, 62, 100];
+const TEXT_EVENT = [DIVISION, 0xff, 0x01, 0x01, 0x78];
+
+describe('MidiReader', () => {
+	it('reads running status up to a meta event and a new status after it', () => {
+		const notes = new MidiReader().parse(midiFile([...RUNNING_NOTES, ...TEXT_EVENT, 0x00, 0x80, 62, 64])).notes;
+		expect(notes.map((note) => [note.midiNumber, note.startTime, note.duration])).toEqual([
+			[60, 0, 0.5],
+			[62, 0.5, 0.5]
+		]);
+	});
+
+	it('rejects running status carried across a meta event', () => {
+		expect(() => new MidiReader().parse(midiFile([...RUNNING_NOTES, ...TEXT_EVENT, 0x00, 62, 0]))).toThrow(
+			'This MIDI file is damaged.'
+		);
+	});
+
+	it('rejects system messages in a track', () => {
+		expect(() => new MidiReader().parse(midiFile([...RUNNING_NOTES, 0x00, 0xf2, 0x00, 0x00]))).toThrow(
+			'This MIDI file is damaged.'
+		);
+	});
+});
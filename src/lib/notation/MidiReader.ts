@@ -0,0 +1,200 @@
+import type { ImportedScore, KeySignature, TimeSignature } from '$lib/types';
+import { midiToPitch } from '$lib/notation/NotePitch';
+import { TempoMap } from '$lib/notation/TempoMap';
+
+const DEFAULT_BPM = 120;
+const DRUM_CHANNEL = 9;
+
+interface Cursor {
+	data: Uint8Array;
+	offset: number;
+}
+
+interface TickNote {
+	midi: number;
+	start: number; // ticks
+	end: number;
+}
+
+/**
+ * Reads a Standard MIDI File as a single melody line: the track and channel
+ * with the most notes, keeping the highest note where notes overlap
+ */
+export class MidiReader {
+	parse(data: Uint8Array): ImportedScore {
+		const cursor: Cursor = { data, offset: 0 };
+		if (this.readString(cursor, 4) !== 'MThd') {
+			throw new Error('This is not a Standard MIDI File.');
+		}
+		const headerEnd = this.readUint32(cursor) + cursor.offset;
+		this.readUint16(cursor); // format, all are read the same way
+		const trackCount = this.readUint16(cursor);
+		const division = this.readUint16(cursor);
+		if (division & 0x8000) {
+			throw new Error('MIDI files timed in SMPTE frames are not supported.');
+		}
+		cursor.offset = headerEnd;
+
+		const tempos = new Map<number, number>(); // tick -> bpm, later events win
+		const parts = new Map<string, TickNote[]>(); // 'track:channel' -> notes
+		let title: string | null = null;
+		let key: KeySignature | null = null;
+		let timeSignature: TimeSignature | null = null;
+
+		for (let track = 0; track < trackCount && cursor.offset < data.length; track++) {
+			const id = this.readString(cursor, 4);
+			const end = this.readUint32(cursor) + cursor.offset;
+			if (id !== 'MTrk') {
+				cursor.offset = end;
+				continue;
+			}
+
+			const open = new Map<number, number>(); // channel * 128 + pitch -> start tick
+			const close = (channel: number, midi: number, tick: number) => {
+				const start = open.get(channel * 128 + midi);
+				if (start === undefined) return;
+				open.delete(channel * 128 + midi);
+				if (channel === DRUM_CHANNEL) return;
+				const part = `${track}:${channel}`;
+				if (!parts.has(part)) parts.set(part, []);
+				parts.get(part)!.push({ midi, start, end: tick });
+			};
+
+			let tick = 0;
+			let runningStatus = 0;
+			while (cursor.offset < end) {
+				tick += this.readVariableLength(cursor);
+				let status = this.readByte(cursor);
+				if (status < 0x80) {
+					// Running status: this byte was already the first data byte
+					cursor.offset--;
+					status = runningStatus;
+				} else if (status < 0xf0) {
+					runningStatus = status;
+				} else {
+					// Meta and sysex events cancel running status
+					runningStatus = 0;
+				}
+
+				if (status === 0xff) {
+					const type = this.readByte(cursor);
+					const length = this.readVariableLength(cursor);
+					const payload = this.readBytes(cursor, length);
+					if (type === 0x51 && length === 3) {
+						const microsPerQuarter = (payload[0] << 16) | (payload[1] << 8) | payload[2];
+						// Microsecond rounding turns 90 BPM into 89.99995
+						if (microsPerQuarter > 0) tempos.set(tick, Math.round(6_000_000_000 / microsPerQuarter) / 100);
+					} else if (type === 0x58 && length >= 2) {
+						timeSignature ??= { beats: payload[0], beatType: 2 ** payload[1] };
+					} else if (type === 0x59 && length === 2) {
+						key ??= this.keyFromSignature((payload[0] << 24) >> 24, payload[1]);
+					} else if (type === 0x03 && track === 0 && length > 0) {
+						title ??= new TextDecoder().decode(payload).trim() || null;
+					}
+				} else if (status === 0xf0 || status === 0xf7) {
+					this.readBytes(cursor, this.readVariableLength(cursor));
+				} else if (status >= 0x80 && status < 0xf0) {
+					const type = status & 0xf0;
+					const channel = status & 0x0f;
+					const first = this.readByte(cursor);
+					const second = type === 0xc0 || type === 0xd0 ? 0 : this.readByte(cursor);
+					if (type === 0x90 && second > 0) {
+						close(channel, first, tick); // a repeated note-on ends the one before
+						open.set(channel * 128 + first, tick);
+					} else if (type === 0x80 || type === 0x90) {
+						close(channel, first, tick);
+					}
+				} else {
+					// Data with no status to run on, or a system message, which files can't hold
+					throw new Error('This MIDI file is damaged.');
+				}
+			}
+			cursor.offset = end;
+		}
+
+		const melody = this.pickMelody([...parts.values()]);
+		if (melody.length === 0) {
+			throw new Error('No notes found in this MIDI file.');
+		}
+
+		const tempoMap = new TempoMap(
+			tempos.size > 0
+				? [...tempos].map(([tempoTick, bpm]) => ({ beat: tempoTick / division, bpm }))
+				: [{ beat: 0, bpm: DEFAULT_BPM }]
+		);
+		return {
+			title,
+			notes: melody.map((note) => {
+				const startTime = tempoMap.beatsToSeconds(note.start / division);
+				return {
+					...midiToPitch(note.midi),
+					startTime,
+					duration: tempoMap.beatsToSeconds(note.end / division) - startTime
+				};
+			}),
+			tempoChanges: tempoMap.getChanges(),
+			key,
+			timeSignature
+		};
+	}
+
+	/**
+	 * The busiest part, reduced to one note at a time: the highest of notes
+	 * starting together, cut off where the next one starts
+	 */
+	private pickMelody(parts: TickNote[][]): TickNote[] {
+		const busiest = parts.reduce<TickNote[]>((best, part) => (part.length > best.length ? part : best), []);
+		const sorted = [...busiest].sort((a, b) => a.start - b.start || b.midi - a.midi);
+		const tops = sorted.filter((note, i) => i === 0 || note.start !== sorted[i - 1].start);
+
+		return tops
+			.map((note, i) => ({ ...note, end: Math.min(note.end, tops[i + 1]?.start ?? Infinity) }))
+			.filter((note) => note.end > note.start);
+	}
+
+	/**
+	 * Key signature meta event: sharps (positive) or flats, and 1 for minor
+	 */
+	private keyFromSignature(fifths: number, minor: number): KeySignature {
+		const majorTonic = (((fifths * 7) % 12) + 12) % 12;
+		return minor === 1 ? { tonic: (majorTonic + 9) % 12, mode: 'minor' } : { tonic: majorTonic, mode: 'major' };
+	}
+
+	private readByte(cursor: Cursor): number {
+		if (cursor.offset >= cursor.data.length) {
+			throw new Error('This MIDI file is truncated.');
+		}
+		return cursor.data[cursor.offset++];
+	}
+
+	private readBytes(cursor: Cursor, length: number): Uint8Array {
+		if (cursor.offset + length > cursor.data.length) {
+			throw new Error('This MIDI file is truncated.');
+		}
+		const bytes = cursor.data.subarray(cursor.offset, cursor.offset + length);
+		cursor.offset += length;
+		return bytes;
+	}
+
+	private readString(cursor: Cursor, length: number): string {
+		return String.fromCharCode(...this.readBytes(cursor, length));
+	}
+
+	private readUint16(cursor: Cursor): number {
+		return (this.readByte(cursor) << 8) | this.readByte(cursor);
+	}
+
+	private readUint32(cursor: Cursor): number {
+		return ((this.readUint16(cursor) << 16) | this.readUint16(cursor)) >>> 0;
+	}
+
+	private readVariableLength(cursor: Cursor): number {
+		let value = 0;
+		let byte: number;
+		do {
+			byte = this.readByte(cursor);
+			value = (value << 7) | (byte & 0x7f);
+		} while (byte & 0x80);
+		return value;
+	}
+}
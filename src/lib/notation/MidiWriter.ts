@@ -0,0 +1,209 @@
+import type { DetectedNote, KeySignature, TimeSignature } from '$lib/types';
+import { keyFifths } from '$lib/notation/KeySignatures';
+import { TempoMap } from '$lib/notation/TempoMap';
+
+export interface MidiSettings {
+	format: 0 | 1; // 0 = single track, 1 = tempo track + note track
+	ticksPerQuarter: number;
+	program: number; // General MIDI program for the melody
+	velocity: number;
+}
+
+const DEFAULT_SETTINGS: MidiSettings = {
+	format: 1,
+	ticksPerQuarter: 480,
+	program: 73, // Flute, same as playback
+	velocity: 96
+};
+
+const MELODY_CHANNEL = 0;
+
+interface MidiEvent {
+	tick: number;
+	data: number[];
+	// Ordering for events on the same tick: meta first, note-offs before note-ons
+	priority: number;
+}
+
+export class MidiWriter {
+	private tempoMap = TempoMap.constant(120);
+	private key: KeySignature = { tonic: 0, mode: 'major' };
+	private timeSignature: TimeSignature = { beats: 4, beatType: 4 };
+	private settings: MidiSettings;
+
+	constructor(settings: Partial<MidiSettings> = {}) {
+		this.settings = { ...DEFAULT_SETTINGS, ...settings };
+	}
+
+	getSettings(): MidiSettings {
+		return { ...this.settings };
+	}
+
+	setSettings(settings: Partial<MidiSettings>): void {
+		this.settings = { ...this.settings, ...settings };
+	}
+
+	setBpm(bpm: number): void {
+		this.tempoMap = TempoMap.constant(bpm);
+	}
+
+	getBpm(): number {
+		return this.tempoMap.getInitialBpm();
+	}
+
+	setTempoMap(tempoMap: TempoMap): void {
+		this.tempoMap = tempoMap;
+	}
+
+	getTempoMap(): TempoMap {
+		return this.tempoMap;
+	}
+
+	setKey(key: KeySignature): void {
+		this.key = key;
+	}
+
+	getKey(): KeySignature {
+		return this.key;
+	}
+
+	setTimeSignature(timeSignature: TimeSignature): void {
+		this.timeSignature = timeSignature;
+	}
+
+	getTimeSignature(): TimeSignature {
+		return this.timeSignature;
+	}
+
+	/**
+	 * Encode notes as a Standard MIDI File
+	 */
+	generate(notes: DetectedNote[]): Uint8Array<ArrayBuffer> {
+		const metaEvents = this.createMetaEvents();
+		const noteEvents = this.createNoteEvents(notes);
+
+		const tracks =
+			this.settings.format === 0
+				? [this.encodeTrack([...metaEvents, ...noteEvents])]
+				: [this.encodeTrack(metaEvents), this.encodeTrack(noteEvents)];
+
+		return this.concat([this.encodeHeader(tracks.length), ...tracks]);
+	}
+
+	private createMetaEvents(): MidiEvent[] {
+		const { beats, beatType } = this.timeSignature;
+
+		// Set tempo, once per change in the tempo map
+		const tempoEvents = this.tempoMap.getChanges().map(({ beat, bpm }) => {
+			const microsecondsPerQuarter = Math.round(60_000_000 / bpm);
+			return {
+				tick: Math.round(beat * this.settings.ticksPerQuarter),
+				priority: 0,
+				data: [
+					0xff, 0x51, 0x03,
+					(microsecondsPerQuarter >> 16) & 0xff,
+					(microsecondsPerQuarter >> 8) & 0xff,
+					microsecondsPerQuarter & 0xff
+				]
+			};
+		});
+
+		return [
+			...tempoEvents,
+			// Time signature: denominator as a power of two, 24 clocks per click, 8 32nds per quarter
+			{
+				tick: 0,
+				priority: 0,
+				data: [0xff, 0x58, 0x04, beats, Math.log2(beatType), 24, 8]
+			},
+			// Key signature: sharps (positive) or flats (negative), then major/minor
+			{
+				tick: 0,
+				priority: 0,
+				data: [0xff, 0x59, 0x02, keyFifths(this.key) & 0xff, this.key.mode === 'minor' ? 1 : 0]
+			}
+		];
+	}
+
+	private createNoteEvents(notes: DetectedNote[]): MidiEvent[] {
+		const events: MidiEvent[] = [
+			// Program change
+			{ tick: 0, priority: 1, data: [0xc0 | MELODY_CHANNEL, this.settings.program] }
+		];
+
+		for (const note of notes) {
+			const startTick = this.secondsToTicks(note.startTime);
+			const endTick = Math.max(startTick + 1, this.secondsToTicks(note.startTime + note.duration));
+			const pitch = Math.max(0, Math.min(127, note.midiNumber));
+
+			events.push({ tick: startTick, priority: 3, data: [0x90 | MELODY_CHANNEL, pitch, this.settings.velocity] });
+			events.push({ tick: endTick, priority: 2, data: [0x80 | MELODY_CHANNEL, pitch, 0] });
+		}
+
+		return events;
+	}
+
+	private secondsToTicks(seconds: number): number {
+		const beats = this.tempoMap.secondsToBeats(seconds);
+		return Math.max(0, Math.round(beats * this.settings.ticksPerQuarter));
+	}
+
+	private encodeHeader(trackCount: number): Uint8Array {
+		return new Uint8Array([
+			...this.ascii('MThd'),
+			...this.uint32(6),
+			...this.uint16(this.settings.format),
+			...this.uint16(trackCount),
+			...this.uint16(this.settings.ticksPerQuarter)
+		]);
+	}
+
+	private encodeTrack(events: MidiEvent[]): Uint8Array {
+		const sorted = [...events].sort((a, b) => a.tick - b.tick || a.priority - b.priority);
+		const bytes: number[] = [];
+		let lastTick = 0;
+
+		for (const event of sorted) {
+			bytes.push(...this.variableLength(event.tick - lastTick), ...event.data);
+			lastTick = event.tick;
+		}
+
+		// End of track
+		bytes.push(0x00, 0xff, 0x2f, 0x00);
+
+		return new Uint8Array([...this.ascii('MTrk'), ...this.uint32(bytes.length), ...bytes]);
+	}
+
+	private variableLength(value: number): number[] {
+		// 7 bits per byte, most significant first, continuation bit on all but the last
+		const bytes = [value & 0x7f];
+		value >>= 7;
+		while (value > 0) {
+			bytes.unshift((value & 0x7f) | 0x80);
+			value >>= 7;
+		}
+		return bytes;
+	}
+
+	private uint32(value: number): number[] {
+		return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+	}
+
+	private uint16(value: number): number[] {
+		return [(value >> 8) & 0xff, value & 0xff];
+	}
+
+	private ascii(text: string): number[] {
+		return Array.from(text, (char) => char.charCodeAt(0));
+	}
+
+	private concat(chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+		const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+		let offset = 0;
+		for (const chunk of chunks) {
+			result.set(chunk, offset);
+			offset += chunk.length;
+		}
+		return result;
+	}
+}
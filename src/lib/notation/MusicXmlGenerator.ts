@@ -0,0 +1,199 @@
+import type { DetectedNote, KeySignature, TimeSignature } from '$lib/types';
+import { MeasureLayout, type LayoutEvent } from '$lib/notation/MeasureLayout';
+import { keyFifths, keySignatureAlters, spellMidi } from '$lib/notation/KeySignatures';
+import { TempoMap } from '$lib/notation/TempoMap';
+
+// MusicXML note types by length in quarter notes
+const NOTE_TYPES: [number, string][] = [
+	[4, 'whole'],
+	[2, 'half'],
+	[1, 'quarter'],
+	[0.5, 'eighth'],
+	[0.25, '16th'],
+	[0.125, '32nd']
+];
+
+const ACCIDENTAL_NAMES: Record<number, string> = {
+	[-1]: 'flat',
+	0: 'natural',
+	1: 'sharp'
+};
+
+export class MusicXmlGenerator {
+	private tempoMap = TempoMap.constant(120);
+	private timeSignature: TimeSignature = { beats: 4, beatType: 4 };
+	private key: KeySignature = { tonic: 0, mode: 'major' };
+	private readonly layout: MeasureLayout;
+
+	constructor() {
+		this.layout = new MeasureLayout();
+	}
+
+	setBpm(bpm: number): void {
+		this.tempoMap = TempoMap.constant(bpm);
+	}
+
+	getBpm(): number {
+		return this.tempoMap.getInitialBpm();
+	}
+
+	setTempoMap(tempoMap: TempoMap): void {
+		this.tempoMap = tempoMap;
+	}
+
+	getTempoMap(): TempoMap {
+		return this.tempoMap;
+	}
+
+	setKey(key: KeySignature): void {
+		this.key = key;
+	}
+
+	getKey(): KeySignature {
+		return this.key;
+	}
+
+	setTimeSignature(timeSignature: TimeSignature): void {
+		this.timeSignature = timeSignature;
+		this.layout.setTimeSignature(timeSignature);
+	}
+
+	getTimeSignature(): TimeSignature {
+		return this.timeSignature;
+	}
+
+	/**
+	 * Allow triplet rhythms, written as tuplets
+	 */
+	setTriplets(triplets: boolean): void {
+		this.layout.setTriplets(triplets);
+	}
+
+	generate(notes: DetectedNote[]): string {
+		if (notes.length === 0) {
+			return '';
+		}
+
+		this.layout.setTempoMap(this.tempoMap);
+		const measures = this.layout.layout(notes);
+		const clef = this.chooseClef(notes);
+		const { measureUnits, unitsPerQuarter } = this.layout.getSettings();
+		let currentBpm = this.tempoMap.getInitialBpm();
+
+		const measureXml = measures.map((measure, index) => {
+			const parts = [`<measure number="${index + 1}">`];
+			const bpm = this.tempoMap.bpmAtBeat((index * measureUnits) / unitsPerQuarter);
+			if (index === 0) {
+				parts.push(this.generateAttributes(clef), this.generateTempo(bpm));
+			} else if (bpm !== currentBpm) {
+				parts.push(this.generateTempo(bpm));
+			}
+			currentBpm = bpm;
+
+			// Accidentals carry through the measure, so track what has been shown
+			const shownAlters = new Map<string, number>();
+			for (const event of measure.events) {
+				parts.push(this.generateNote(event, shownAlters));
+			}
+
+			if (index === measures.length - 1) {
+				parts.push('<barline location="right"><bar-style>light-heavy</bar-style></barline>');
+			}
+			parts.push('</measure>');
+			return parts.join('\n');
+		});
+
+		return `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">
+<score-partwise version="4.0">
+<work><work-title>Recorded Melody</work-title></work>
+<part-list>
+<score-part id="P1"><part-name>Melody</part-name></score-part>
+</part-list>
+<part id="P1">
+${measureXml.join('\n')}
+</part>
+</score-partwise>
+`;
+	}
+
+	private generateAttributes(clef: 'G' | 'F'): string {
+		const { unitsPerQuarter } = this.layout.getSettings();
+		const clefLine = clef === 'G' ? 2 : 4;
+		return `<attributes>
+<divisions>${unitsPerQuarter}</divisions>
+<key><fifths>${keyFifths(this.key)}</fifths><mode>${this.key.mode}</mode></key>
+<time><beats>${this.timeSignature.beats}</beats><beat-type>${this.timeSignature.beatType}</beat-type></time>
+<clef><sign>${clef}</sign><line>${clefLine}</line></clef>
+</attributes>`;
+	}
+
+	private generateTempo(bpm: number): string {
+		return `<direction placement="above">
+<direction-type><metronome><beat-unit>quarter</beat-unit><per-minute>${bpm}</per-minute></metronome></direction-type>
+<sound tempo="${bpm}"/>
+</direction>`;
+	}
+
+	private generateNote(event: LayoutEvent, shownAlters: Map<string, number>): string {
+		const { unitsPerQuarter } = this.layout.getSettings();
+		const { type, dots } = this.getNoteType(event.written / unitsPerQuarter);
+		const typeXml = `<type>${type}</type>${'<dot/>'.repeat(dots)}`;
+
+		// Tuplet notes sound shorter than written and bracket their group
+		const tuplets: string[] = [];
+		let timeModificationXml = '';
+		if (event.tuplet) {
+			timeModificationXml = `<time-modification><actual-notes>${event.tuplet.actual}</actual-notes><normal-notes>${event.tuplet.normal}</normal-notes></time-modification>`;
+			if (event.tupletStart) tuplets.push('<tuplet type="start" bracket="yes"/>');
+			if (event.tupletStop) tuplets.push('<tuplet type="stop"/>');
+		}
+
+		if (event.note === null) {
+			const restNotationsXml = tuplets.length > 0 ? `<notations>${tuplets.join('')}</notations>` : '';
+			return `<note><rest/><duration>${event.duration}</duration><voice>1</voice>${typeXml}${timeModificationXml}${restNotationsXml}</note>`;
+		}
+
+		const { step, alter, octave } = spellMidi(event.note.midiNumber, this.key);
+		const pitchXml = `<pitch><step>${step}</step>${alter !== 0 ? `<alter>${alter}</alter>` : ''}<octave>${octave}</octave></pitch>`;
+
+		// Show an accidental when it differs from what the key signature
+		// or an earlier note in the measure established
+		const pitchKey = `${step}${octave}`;
+		const impliedAlter = shownAlters.get(pitchKey) ?? keySignatureAlters(this.key)[step];
+		let accidentalXml = '';
+		if (impliedAlter !== alter && !event.tieStop) {
+			accidentalXml = `<accidental>${ACCIDENTAL_NAMES[alter]}</accidental>`;
+		}
+		shownAlters.set(pitchKey, alter);
+
+		const ties: string[] = [];
+		const tied: string[] = [];
+		if (event.tieStop) {
+			ties.push('<tie type="stop"/>');
+			tied.push('<tied type="stop"/>');
+		}
+		if (event.tieStart) {
+			ties.push('<tie type="start"/>');
+			tied.push('<tied type="start"/>');
+		}
+		const notations = [...tied, ...tuplets];
+		const notationsXml = notations.length > 0 ? `<notations>${notations.join('')}</notations>` : '';
+
+		return `<note>${pitchXml}<duration>${event.duration}</duration>${ties.join('')}<voice>1</voice>${typeXml}${accidentalXml}${timeModificationXml}${notationsXml}</note>`;
+	}
+
+	private getNoteType(quarters: number): { type: string; dots: number } {
+		for (const [length, type] of NOTE_TYPES) {
+			if (quarters === length) return { type, dots: 0 };
+			if (quarters === length * 1.5) return { type, dots: 1 };
+		}
+		return { type: 'quarter', dots: 0 };
+	}
+
+	private chooseClef(notes: DetectedNote[]): 'G' | 'F' {
+		// Bass clef when most of the melody sits below middle C
+		const below = notes.filter((n) => n.midiNumber < 60).length;
+		return below > notes.length / 2 ? 'F' : 'G';
+	}
+}
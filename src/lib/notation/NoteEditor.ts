@@ -0,0 +1,117 @@
+import type { DetectedNote } from '$lib/types';
+import { midiToPitch } from '$lib/notation/NotePitch';
+
+const MIN_MIDI = 21; // A0
+const MAX_MIDI = 108; // C8
+
+export interface EditResult {
+	notes: DetectedNote[];
+	selection: number[]; // indices into notes of the edited notes
+}
+
+/**
+ * Note edits for the piano roll. Every edit returns a new, time-sorted
+ * note list along with where the edited notes ended up.
+ */
+export class NoteEditor {
+	private readonly minDuration = 0.05; // seconds, shortest note an edit can leave
+
+	/**
+	 * Shift notes in time (seconds) and pitch (semitones)
+	 */
+	move(notes: DetectedNote[], selection: number[], timeDelta: number, pitchDelta: number): EditResult {
+		// Keep the group together rather than flattening it against time 0
+		const earliest = Math.min(...selection.map((i) => notes[i].startTime));
+		const shift = Math.max(timeDelta, -earliest);
+
+		return this.replace(notes, selection, (note) => ({
+			...note,
+			startTime: note.startTime + shift,
+			// Keep the sung frequency unless the pitch actually changes
+			...(pitchDelta !== 0 ? this.pitch(note.midiNumber + pitchDelta) : {})
+		}));
+	}
+
+	/**
+	 * Lengthen or shorten notes by a number of seconds
+	 */
+	resize(notes: DetectedNote[], selection: number[], durationDelta: number): EditResult {
+		return this.replace(notes, selection, (note) => ({
+			...note,
+			duration: Math.max(this.minDuration, note.duration + durationDelta)
+		}));
+	}
+
+	/**
+	 * Cut a note in two at a time inside it
+	 */
+	split(notes: DetectedNote[], index: number, time: number): EditResult {
+		const note = notes[index];
+		const offset = time - note.startTime;
+		if (offset < this.minDuration || note.duration - offset < this.minDuration) {
+			return { notes, selection: [index] };
+		}
+
+		const first = { ...note, duration: offset };
+		const second = { ...note, startTime: time, duration: note.duration - offset };
+		return this.sorted(
+			[...notes.slice(0, index), first, second, ...notes.slice(index + 1)],
+			[first, second]
+		);
+	}
+
+	/**
+	 * Join notes into one spanning them all, at the pitch of the first
+	 */
+	merge(notes: DetectedNote[], selection: number[]): EditResult {
+		if (selection.length < 2) return { notes, selection };
+
+		const selected = selection.map((i) => notes[i]).sort((a, b) => a.startTime - b.startTime);
+		const start = selected[0].startTime;
+		const end = Math.max(...selected.map((n) => n.startTime + n.duration));
+		const merged = { ...selected[0], duration: end - start };
+
+		const kept = notes.filter((_, i) => !selection.includes(i));
+		return this.sorted([...kept, merged], [merged]);
+	}
+
+	add(notes: DetectedNote[], midiNumber: number, startTime: number, duration: number): EditResult {
+		const note: DetectedNote = {
+			...this.pitch(midiNumber),
+			startTime: Math.max(0, startTime),
+			duration: Math.max(this.minDuration, duration)
+		};
+		return this.sorted([...notes, note], [note]);
+	}
+
+	remove(notes: DetectedNote[], selection: number[]): EditResult {
+		return { notes: notes.filter((_, i) => !selection.includes(i)), selection: [] };
+	}
+
+	private replace(
+		notes: DetectedNote[],
+		selection: number[],
+		edit: (note: DetectedNote) => DetectedNote
+	): EditResult {
+		const edited: DetectedNote[] = [];
+		const result = notes.map((note, i) => {
+			if (!selection.includes(i)) return note;
+			const replacement = edit(note);
+			edited.push(replacement);
+			return replacement;
+		});
+		return this.sorted(result, edited);
+	}
+
+	private sorted(notes: DetectedNote[], edited: DetectedNote[]): EditResult {
+		const sorted = [...notes].sort((a, b) => a.startTime - b.startTime);
+		return { notes: sorted, selection: edited.map((note) => sorted.indexOf(note)) };
+	}
+
+	/**
+	 * Pitch fields for a MIDI note, kept within the piano's range
+	 */
+	private pitch(midiNumber: number): Pick<DetectedNote, 'note' | 'octave' | 'midiNumber' | 'frequency'> {
+		return midiToPitch(Math.max(MIN_MIDI, Math.min(MAX_MIDI, Math.round(midiNumber))));
+	}
+}
@@ -0,0 +1,17 @@
+import type { DetectedNote } from '$lib/types';
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const A4_FREQUENCY = 440;
+const A4_MIDI = 69;
+
+/**
+ * Name, octave and equal-tempered frequency for a MIDI note
+ */
+export function midiToPitch(midiNumber: number): Pick<DetectedNote, 'note' | 'octave' | 'midiNumber' | 'frequency'> {
+	return {
+		note: NOTE_NAMES[((midiNumber % 12) + 12) % 12],
+		octave: Math.floor(midiNumber / 12) - 1,
+		midiNumber,
+		frequency: A4_FREQUENCY * 2 ** ((midiNumber - A4_MIDI) / 12)
+	};
+}
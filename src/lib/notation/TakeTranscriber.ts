@@ -0,0 +1,138 @@
+import { KeyDetector } from '$lib/notation/KeyDetector';
+import { MeterDetector } from '$lib/notation/MeterDetector';
+import { TempoMap } from '$lib/notation/TempoMap';
+import type { TempoQuantizer } from '$lib/notation/TempoQuantizer';
+import type { AbcGenerator } from '$lib/notation/AbcGenerator';
+import type { MidiWriter } from '$lib/notation/MidiWriter';
+import type { MusicXmlGenerator } from '$lib/notation/MusicXmlGenerator';
+import type { DetectedNote, KeySignature, TempoChange, TimeSignature } from '$lib/types';
+
+export interface TakeOptions {
+	quantize: boolean;
+	followTempo: boolean; // track tempo drift bar by bar while quantizing
+}
+
+export interface TakeLayout {
+	notes: DetectedNote[]; // quantized, or moved to start at 0
+	tempoChanges: TempoChange[]; // tracked tempo, empty when not quantized
+}
+
+export interface TakeTranscription extends TakeLayout {
+	key: KeySignature;
+	bpm: number;
+	timeSignature: TimeSignature;
+}
+
+// What the score writers need besides the notes
+export interface ScoreContext {
+	tempoMap: TempoMap;
+	triplets: boolean; // notes sit on a triplet grid, written as tuplets
+	key: KeySignature;
+	timeSignature: TimeSignature;
+}
+
+/**
+ * Turns a take's raw notes into the key, tempo, meter and notes shown to
+ * the user. Grid and swing are whatever the given tempo quantizer is set
+ * to; the quantizer's BPM follows the detected tempo.
+ */
+export class TakeTranscriber {
+	private keyDetector = new KeyDetector();
+	private meterDetector = new MeterDetector();
+
+	constructor(private readonly tempoQuantizer: TempoQuantizer) {}
+
+	/**
+	 * Detect everything about a new take. Without notes to go on, the
+	 * current tempo and meter are kept.
+	 */
+	transcribe(
+		rawNotes: DetectedNote[],
+		options: TakeOptions,
+		current: { bpm: number; timeSignature: TimeSignature }
+	): TakeTranscription {
+		// Estimate the key from the unquantized take
+		const key = this.keyDetector.detect(rawNotes);
+
+		let bpm = current.bpm;
+		if (options.quantize && rawNotes.length > 0) {
+			bpm = this.tempoQuantizer.detectTempo(rawNotes);
+			this.tempoQuantizer.setBpm(bpm);
+		}
+
+		// Meter first, so tempo changes can land on its barlines
+		const timeSignature = this.detectMeter(rawNotes, bpm) ?? current.timeSignature;
+		return { key, bpm, timeSignature, ...this.layOut(rawNotes, options, timeSignature) };
+	}
+
+	/**
+	 * Estimate the meter from the take's onsets on the quantizer's tempo
+	 * grid, or null without notes
+	 */
+	detectMeter(rawNotes: DetectedNote[], bpm: number): TimeSignature | null {
+		if (rawNotes.length === 0) return null;
+		// The meter detector counts eighths at one fixed tempo
+		this.tempoQuantizer.setFollowTempo(false);
+		const gridNotes = this.tempoQuantizer.quantize(rawNotes, false);
+		return this.meterDetector.detect(gridNotes, bpm);
+	}
+
+	/**
+	 * Quantize the raw notes at the quantizer's BPM, following tempo drift
+	 * bar by bar when enabled. Unquantized notes just move to start at 0.
+	 */
+	layOut(rawNotes: DetectedNote[], options: TakeOptions, timeSignature: TimeSignature): TakeLayout {
+		if (!options.quantize || rawNotes.length === 0) {
+			return { notes: normalizeNoteTimes(rawNotes), tempoChanges: [] };
+		}
+
+		const { beats, beatType } = timeSignature;
+		this.tempoQuantizer.setBeatsPerBar((beats * 4) / beatType);
+		this.tempoQuantizer.setFollowTempo(options.followTempo);
+		const notes = this.tempoQuantizer.quantize(rawNotes, false);
+		return { notes, tempoChanges: this.tempoQuantizer.getTempoMap().getChanges() };
+	}
+}
+
+/**
+ * Move note start times so the first note starts at 0
+ */
+export function normalizeNoteTimes(notes: DetectedNote[]): DetectedNote[] {
+	if (notes.length === 0) return [];
+	const firstStart = notes[0].startTime;
+	return notes.map((note) => ({
+		...note,
+		startTime: note.startTime - firstStart
+	}));
+}
+
+/**
+ * Tempo of a take's notes: the tracked tempo map when quantized,
+ * otherwise one fixed BPM
+ */
+export function takeTempoMap(quantize: boolean, tempoChanges: TempoChange[], bpm: number): TempoMap {
+	return quantize && tempoChanges.length > 0 ? new TempoMap(tempoChanges) : TempoMap.constant(bpm);
+}
+
+export function writeAbc(generator: AbcGenerator, notes: DetectedNote[], context: ScoreContext): string {
+	generator.setTempoMap(context.tempoMap);
+	generator.setTriplets(context.triplets);
+	generator.setKey(context.key);
+	generator.setTimeSignature(context.timeSignature);
+	return generator.generate(notes);
+}
+
+export function writeMidi(writer: MidiWriter, notes: DetectedNote[], context: ScoreContext): Uint8Array<ArrayBuffer> {
+	writer.setTempoMap(context.tempoMap);
+	writer.setKey(context.key);
+	writer.setTimeSignature(context.timeSignature);
+	return writer.generate(notes);
+}
+
+export function writeMusicXml(generator: MusicXmlGenerator, notes: DetectedNote[], context: ScoreContext): string {
+	generator.setTempoMap(context.tempoMap);
+	generator.setTriplets(context.triplets);
+	generator.setKey(context.key);
+	generator.setTimeSignature(context.timeSignature);
+	return generator.generate(notes);
+}
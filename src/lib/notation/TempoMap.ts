@@ -0,0 +1,88 @@
+import type { TempoChange } from '$lib/types';
+
+interface Segment {
+	beat: number;
+	time: number; // seconds at which the segment starts
+	bpm: number;
+}
+
+/**
+ * Piecewise-constant tempo over a take, converting between seconds and
+ * quarter-note beats. Time 0 is beat 0.
+ */
+export class TempoMap {
+	private readonly segments: Segment[];
+
+	constructor(changes: TempoChange[]) {
+		const sorted = [...changes].sort((a, b) => a.beat - b.beat);
+		if (sorted.length === 0 || sorted[0].beat > 0) {
+			sorted.unshift({ beat: 0, bpm: sorted[0]?.bpm ?? 120 });
+		}
+
+		// Segment start times follow from the tempo of everything before them
+		this.segments = [];
+		let time = 0;
+		sorted.forEach((change, i) => {
+			if (i > 0) {
+				const previous = sorted[i - 1];
+				time += ((change.beat - previous.beat) * 60) / previous.bpm;
+			}
+			this.segments.push({ beat: change.beat, time, bpm: change.bpm });
+		});
+	}
+
+	static constant(bpm: number): TempoMap {
+		return new TempoMap([{ beat: 0, bpm }]);
+	}
+
+	getChanges(): TempoChange[] {
+		return this.segments.map(({ beat, bpm }) => ({ beat, bpm }));
+	}
+
+	isConstant(): boolean {
+		return this.segments.length === 1;
+	}
+
+	/**
+	 * Tempo at the start of the take
+	 */
+	getInitialBpm(): number {
+		return this.segments[0].bpm;
+	}
+
+	bpmAtBeat(beat: number): number {
+		return this.segmentAtBeat(beat).bpm;
+	}
+
+	bpmAtTime(time: number): number {
+		return this.segmentAtTime(time).bpm;
+	}
+
+	secondsToBeats(time: number): number {
+		const segment = this.segmentAtTime(time);
+		return segment.beat + ((time - segment.time) * segment.bpm) / 60;
+	}
+
+	beatsToSeconds(beat: number): number {
+		const segment = this.segmentAtBeat(beat);
+		return segment.time + ((beat - segment.beat) * 60) / segment.bpm;
+	}
+
+	private segmentAtBeat(beat: number): Segment {
+		let found = this.segments[0];
+		for (const segment of this.segments) {
+			if (segment.beat > beat) break;
+			found = segment;
+		}
+		return found;
+	}
+
+	private segmentAtTime(time: number): Segment {
+		let found = this.segments[0];
+		for (const segment of this.segments) {
+			if (segment.time > time) break;
+			found = segment;
+		}
+		return found;
+	}
+}
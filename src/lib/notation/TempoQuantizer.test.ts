@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { TempoQuantizer } from '$lib/notation/TempoQuantizer';
+import { midiToPitch } from '$lib/notation/NotePitch';
+import type { DetectedNote } from '$lib/types';
+
+// Eighth notes accented on the 2+2+3 grouping of 7/8, each bar at its own tempo
+function sevenEight(barBpms: number[]): DetectedNote[] {
+	const notes: DetectedNote[] = [];
+	let time = 0.5;
+	for (const bpm of barBpms) {
+		const eighth = 30 / bpm;
+		for (let i = 0; i < 7; i++) {
+			const accent = i === 0 || i === 2 || i === 4;
+			notes.push({ ...midiToPitch(accent ? 67 : 62), startTime: time, duration: eighth * 0.9 });
+			time += eighth;
+		}
+	}
+	return notes;
+}
+
+describe('TempoQuantizer following tempo in 7/8', () => {
+	const quantizer = (bpm: number) => new TempoQuantizer({ bpm, followTempo: true, beatsPerBar: 3.5 });
+
+	it('keeps a steady take at one tempo on the eighth-note grid', () => {
+		const tempoQuantizer = quantizer(120);
+		const notes = tempoQuantizer.quantize(sevenEight([120, 120, 120]), false);
+
+		expect(tempoQuantizer.getTempoMap().getChanges()).toEqual([{ beat: 0, bpm: 120 }]);
+		notes.forEach((note, i) => {
+			expect(note.startTime).toBeCloseTo(i * 0.25, 5);
+			expect(note.duration).toBeCloseTo(0.25, 5);
+		});
+	});
+
+	it('starts tempo changes on barlines between beats', () => {
+		const tempoQuantizer = quantizer(100);
+		const notes = tempoQuantizer.quantize(sevenEight([100, 100, 100, 130, 130, 130]), false);
+		const changes = tempoQuantizer.getTempoMap().getChanges();
+
+		expect(changes.length).toBeGreaterThan(1);
+		changes.forEach((change) => {
+			expect(Number.isFinite(change.bpm)).toBe(true);
+			expect((change.beat / 3.5) % 1).toBe(0);
+		});
+		notes.forEach((note) => expect(Number.isFinite(note.startTime)).toBe(true));
+	});
+});
@@ -1,80 +1,70 @@
 import type { DetectedNote } from '$lib/types';
+import { BeatTracker } from '$lib/notation/BeatTracker';
+import { TempoMap } from '$lib/notation/TempoMap';
 
 export interface QuantizationSettings {
 	bpm: number;
-	subdivision: number; // 4 = quarter notes, 8 = eighth notes, 16 = sixteenth notes
+	subdivision: number; // 4 = quarter notes, 8 = eighth notes, 16 = sixteenth notes, 12/24 = eighth/sixteenth triplets
 	swingAmount: number; // 0 = no swing, 0.5 = full swing
+	followTempo: boolean; // track tempo drift instead of holding one BPM
+	beatsPerBar: number; // quarter-note beats per measure, tempo changes land on barlines
 }
 
+// Tempos the quantizer works at; others are clamped into range
+export const MIN_BPM = 40;
+export const MAX_BPM = 240;
+
 const DEFAULT_SETTINGS: QuantizationSettings = {
 	bpm: 120,
 	subdivision: 8, // Quantize to eighth notes
-	swingAmount: 0
+	swingAmount: 0,
+	followTempo: false,
+	beatsPerBar: 4
 };
 
+// Grids offered in the UI, in divisions of a whole note
+export const SUBDIVISIONS: { value: number; label: string }[] = [
+	{ value: 4, label: '1/4' },
+	{ value: 8, label: '1/8' },
+	{ value: 16, label: '1/16' },
+	{ value: 12, label: '1/8 triplets' },
+	{ value: 24, label: '1/16 triplets' }
+];
+
+/**
+ * Triplet grids split the beat in three rather than two
+ */
+export function isTripletSubdivision(subdivision: number): boolean {
+	return subdivision % 3 === 0;
+}
+
+// A bar whose tempo differs from the running tempo by more than this starts a new tempo
+const TEMPO_CHANGE_THRESHOLD = 0.04;
+// When following tempo, the grid is phased to the opening this many beats
+// long; the beat tracker keeps it in step from there
+const OPENING_BEATS = 4;
+
 export class TempoQuantizer {
 	private settings: QuantizationSettings;
+	private beatTracker = new BeatTracker();
+	private tempoMap = TempoMap.constant(DEFAULT_SETTINGS.bpm);
 
 	constructor(settings: Partial<QuantizationSettings> = {}) {
 		this.settings = { ...DEFAULT_SETTINGS, ...settings };
 	}
 
 	/**
-	 * Detect tempo from note durations
+	 * Detect tempo from note onsets
 	 */
 	detectTempo(notes: DetectedNote[]): number {
 		if (notes.length < 2) return DEFAULT_SETTINGS.bpm;
-
-		// Collect all note durations
-		const durations = notes.map(n => n.duration);
-
-		// Find the most common short duration (likely the beat unit)
-		const shortDurations = durations.filter(d => d > 0.1 && d < 2);
-		if (shortDurations.length === 0) return DEFAULT_SETTINGS.bpm;
-
-		// Cluster durations and find the most common cluster
-		const clusters = this.clusterDurations(shortDurations);
-		const dominantDuration = clusters[0]?.center || 0.5;
-
-		// Assume this duration is a quarter note and calculate BPM
-		// But clamp to reasonable range
-		let bpm = 60 / dominantDuration;
-
-		// If BPM is too fast, it might be eighth notes
-		if (bpm > 180) bpm /= 2;
-		// If too slow, might be half notes
-		if (bpm < 60) bpm *= 2;
-
-		// Clamp to reasonable range
-		return Math.max(60, Math.min(180, Math.round(bpm)));
-	}
-
-	private clusterDurations(durations: number[]): { center: number; count: number }[] {
-		const sorted = [...durations].sort((a, b) => a - b);
-		const clusters: { center: number; count: number; sum: number }[] = [];
-		const tolerance = 0.15; // 150ms tolerance for clustering
-
-		for (const duration of sorted) {
-			const existingCluster = clusters.find(
-				c => Math.abs(c.center - duration) < tolerance
-			);
-
-			if (existingCluster) {
-				existingCluster.count++;
-				existingCluster.sum += duration;
-				existingCluster.center = existingCluster.sum / existingCluster.count;
-			} else {
-				clusters.push({ center: duration, count: 1, sum: duration });
-			}
-		}
-
-		// Sort by count descending
-		return clusters.sort((a, b) => b.count - a.count);
+		return this.beatTracker.track(notes).bpm;
 	}
 
 	/**
 	 * Quantize notes to the tempo grid
-	 * Note: Start times are normalized so the first note starts at 0
+	 * Note: Start times are measured from the first beat at or before the
+	 * first note, so a melody that begins off the beat keeps its offset
 	 */
 	quantize(notes: DetectedNote[], autoDetectTempo = true): DetectedNote[] {
 		if (notes.length === 0) return [];
@@ -86,39 +76,125 @@ export class TempoQuantizer {
 
 		const beatDuration = 60 / this.settings.bpm; // Duration of one quarter note in seconds
 		const gridSize = beatDuration / (this.settings.subdivision / 4); // Duration of one grid unit
+		const gridBeats = 4 / this.settings.subdivision; // Grid unit in beats
+
+		// Align the grid to the beat rather than to the first note
+		const origin = this.getGridOrigin(notes, beatDuration, gridSize);
+		this.tempoMap = this.settings.followTempo
+			? this.trackTempoMap(notes, origin)
+			: TempoMap.constant(this.settings.bpm);
 
-		// Get the first note's start time as reference
-		const firstNoteStart = notes[0].startTime;
+		// Work in whole grid units on the (possibly drifting) beat timeline
+		const toUnits = (time: number) => this.unswing(this.tempoMap.secondsToBeats(time - origin) / gridBeats);
+		const toSeconds = (units: number) => this.tempoMap.beatsToSeconds(units * gridBeats);
+		const starts = notes.map((note) => Math.max(0, Math.round(toUnits(note.startTime))));
 
 		return notes.map((note, index) => {
-			// Quantize start time relative to first note, normalized to start at 0
-			const relativeStart = note.startTime - firstNoteStart;
-			const quantizedStart = Math.round(relativeStart / gridSize) * gridSize;
+			const start = starts[index];
 
 			// Quantize duration to nearest grid unit (minimum 1 grid unit)
-			const gridUnits = Math.max(1, Math.round(note.duration / gridSize));
-			const quantizedDuration = gridUnits * gridSize;
+			const lengthUnits = toUnits(note.startTime + note.duration) - toUnits(note.startTime);
+			let units = Math.max(1, Math.round(lengthUnits));
 
 			// Prevent overlap with next note
-			let finalDuration = quantizedDuration;
 			if (index < notes.length - 1) {
-				const nextNote = notes[index + 1];
-				const nextRelativeStart = nextNote.startTime - firstNoteStart;
-				const nextQuantizedStart = Math.round(nextRelativeStart / gridSize) * gridSize;
-				const maxDuration = nextQuantizedStart - quantizedStart - 0.01;
-				if (maxDuration > 0 && finalDuration > maxDuration) {
-					finalDuration = Math.max(gridSize, Math.floor(maxDuration / gridSize) * gridSize);
+				const available = starts[index + 1] - start;
+				if (available > 0 && units > available) {
+					units = available;
 				}
 			}
 
+			const startTime = toSeconds(start);
 			return {
 				...note,
-				startTime: quantizedStart,
-				duration: finalDuration
+				startTime,
+				duration: toSeconds(start + units) - startTime
 			};
 		});
 	}
 
+	/**
+	 * Map a performed position in grid units onto the straight grid. Swing
+	 * delays the second unit of each pair; at full swing it lands two thirds
+	 * of the way through the pair, like a triplet, and still snaps to the
+	 * straight offbeat it stands for.
+	 */
+	private unswing(units: number): number {
+		const swing = isTripletSubdivision(this.settings.subdivision) ? 0 : this.settings.swingAmount;
+		if (swing === 0) return units;
+
+		const pairStart = Math.floor(units / 2) * 2;
+		const position = units - pairStart;
+		const offbeat = 1 + (2 * swing) / 3;
+		const straight = position < offbeat ? position / offbeat : 1 + (position - offbeat) / (2 - offbeat);
+		return pairStart + straight;
+	}
+
+	/**
+	 * Follow the beat through the take and summarise it as one tempo per
+	 * run of bars, starting a new tempo only when a bar drifts noticeably
+	 */
+	private trackTempoMap(notes: DetectedNote[], origin: number): TempoMap {
+		const beatTimes = this.beatTracker.trackBeats(notes, this.settings.bpm, origin);
+		const barBeats = this.settings.beatsPerBar;
+		const barCount = Math.floor((beatTimes.length - 1) / barBeats);
+		if (barCount === 0) return TempoMap.constant(this.settings.bpm);
+
+		// Bars of 3/8, 5/8 or 7/8 end halfway through a beat
+		const timeAt = (beat: number) => {
+			const whole = Math.floor(beat);
+			const next = beatTimes[Math.min(whole + 1, beatTimes.length - 1)];
+			return beatTimes[whole] + (beat - whole) * (next - beatTimes[whole]);
+		};
+		const spanBpm = (fromBar: number, toBar: number) => {
+			const beats = (toBar - fromBar) * barBeats;
+			const seconds = timeAt(toBar * barBeats) - timeAt(fromBar * barBeats);
+			return this.clampBpm((60 * beats) / seconds);
+		};
+
+		// Bars where the tempo changes, each running until the next
+		const segmentStarts = [0];
+		for (let bar = 1; bar < barCount; bar++) {
+			const segmentStart = segmentStarts[segmentStarts.length - 1];
+			const runningBpm = spanBpm(segmentStart, bar);
+			const barBpm = spanBpm(bar, bar + 1);
+			if (Math.abs(barBpm - runningBpm) / runningBpm > TEMPO_CHANGE_THRESHOLD) {
+				segmentStarts.push(bar);
+			}
+		}
+
+		const changes = segmentStarts.map((bar, i) => ({
+			beat: bar * barBeats,
+			bpm: Math.round(spanBpm(bar, segmentStarts[i + 1] ?? barCount))
+		}));
+
+		// Merge neighbours that round to the same tempo
+		const merged = changes.filter((change, i) => i === 0 || change.bpm !== changes[i - 1].bpm);
+		return new TempoMap(merged);
+	}
+
+	/**
+	 * Time of the last beat at or before the first note. A first note that
+	 * is slightly early still snaps onto the beat instead of before it.
+	 */
+	private getGridOrigin(notes: DetectedNote[], beatDuration: number, gridSize: number): number {
+		const firstStart = notes[0].startTime;
+		// A drifting take only fits one average tempo near its middle
+		const phaseNotes = this.settings.followTempo
+			? notes.filter((note) => note.startTime < firstStart + OPENING_BEATS * beatDuration)
+			: notes;
+		const phase = this.beatTracker.estimatePhase(phaseNotes, this.settings.bpm);
+		const beatsBefore = Math.floor((firstStart - phase + gridSize / 2) / beatDuration);
+		return phase + beatsBefore * beatDuration;
+	}
+
+	/**
+	 * Tempo map from the last quantize, constant unless following tempo
+	 */
+	getTempoMap(): TempoMap {
+		return this.tempoMap;
+	}
+
 	/**
 	 * Get the current BPM setting
 	 */
@@ -130,7 +206,25 @@ export class TempoQuantizer {
 	 * Set BPM manually
 	 */
 	setBpm(bpm: number): void {
-		this.settings.bpm = Math.max(40, Math.min(240, bpm));
+		this.settings.bpm = this.clampBpm(bpm);
+	}
+
+	/**
+	 * Follow tempo drift across the take instead of one fixed BPM
+	 */
+	setFollowTempo(followTempo: boolean): void {
+		this.settings.followTempo = followTempo;
+	}
+
+	/**
+	 * Set measure length in quarter-note beats
+	 */
+	setBeatsPerBar(beatsPerBar: number): void {
+		this.settings.beatsPerBar = beatsPerBar;
+	}
+
+	private clampBpm(bpm: number): number {
+		return Math.max(MIN_BPM, Math.min(MAX_BPM, bpm));
 	}
 
 	/**
@@ -139,4 +233,19 @@ export class TempoQuantizer {
 	setSubdivision(subdivision: number): void {
 		this.settings.subdivision = subdivision;
 	}
+
+	getSubdivision(): number {
+		return this.settings.subdivision;
+	}
+
+	/**
+	 * Set how late swung offbeats are played, 0 (straight) to 0.5 (full swing)
+	 */
+	setSwingAmount(swingAmount: number): void {
+		this.settings.swingAmount = Math.max(0, Math.min(0.5, swingAmount));
+	}
+
+	getSwingAmount(): number {
+		return this.settings.swingAmount;
+	}
 }
@@ -0,0 +1,40 @@
+import type { TimeSignature } from '$lib/types';
+
+// Meters offered in the UI and considered by meter detection
+export const COMMON_METERS: TimeSignature[] = [
+	{ beats: 2, beatType: 4 },
+	{ beats: 3, beatType: 4 },
+	{ beats: 4, beatType: 4 },
+	{ beats: 6, beatType: 8 }
+];
+
+/**
+ * Compound meters (6/8, 9/8, 12/8) group eighths in threes
+ */
+export function isCompound(meter: TimeSignature): boolean {
+	return meter.beatType === 8 && meter.beats % 3 === 0 && meter.beats > 3;
+}
+
+/**
+ * Measure length in grid units
+ */
+export function measureUnits(meter: TimeSignature, unitsPerQuarter: number): number {
+	return (meter.beats * unitsPerQuarter * 4) / meter.beatType;
+}
+
+/**
+ * Length of the felt beat in grid units: a dotted quarter in compound
+ * meters, otherwise the denominator's note value
+ */
+export function beatUnits(meter: TimeSignature, unitsPerQuarter: number): number {
+	const noteUnits = (unitsPerQuarter * 4) / meter.beatType;
+	return isCompound(meter) ? noteUnits * 3 : noteUnits;
+}
+
+export function meterLabel(meter: TimeSignature): string {
+	return `${meter.beats}/${meter.beatType}`;
+}
+
+export function metersEqual(a: TimeSignature, b: TimeSignature): boolean {
+	return a.beats === b.beats && a.beatType === b.beatType;
+}
@@ -0,0 +1,14 @@
+import type { AnalysisSettings } from '$lib/pitch/FrameAnalyzer';
+import type { DetectedNote, PitchData } from '$lib/types';
+
+// Messages to the analysis worker, handled in the order they are sent
+export type AnalysisRequest =
+	| { type: 'start'; sampleRate: number; settings: Partial<AnalysisSettings> }
+	| { type: 'samples'; samples: Float32Array }
+	| { type: 'flush' }; // finish the note in progress, then answer with 'flushed'
+
+// Messages back from the worker, in stream order
+export type AnalysisEvent =
+	| { type: 'frames'; pitches: PitchData[]; notes: DetectedNote[] } // every frame of one batch of samples
+	| { type: 'flushed'; note: DetectedNote | null }
+	| { type: 'error'; message: string };
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisSession } from '$lib/pitch/AnalysisSession';
+import { OfflineAnalyzer } from '$lib/pitch/OfflineAnalyzer';
+import { SEGMENTATION_CORPUS } from '$lib/testing/SyntheticCorpus';
+import { renderMelody } from '$lib/testing/SyntheticVoice';
+import type { DetectedNote, PitchData } from '$lib/types';
+
+const SAMPLE_RATE = 44100;
+const CHUNK_SIZE = 4096; // about what the capture worklet posts at a time
+
+describe('AnalysisSession', () => {
+	it('streams the same frames and notes as offline analysis', async () => {
+		const samples = renderMelody(SEGMENTATION_CORPUS[0].notes, { sampleRate: SAMPLE_RATE });
+		const session = new AnalysisSession();
+		const pitches: PitchData[] = [];
+		const notes: DetectedNote[] = [];
+
+		session.handle({ type: 'start', sampleRate: SAMPLE_RATE, settings: {} });
+		for (let start = 0; start < samples.length; start += CHUNK_SIZE) {
+			const event = session.handle({ type: 'samples', samples: samples.slice(start, start + CHUNK_SIZE) });
+			if (event?.type === 'frames') {
+				pitches.push(...event.pitches);
+				notes.push(...event.notes);
+			}
+		}
+		const flushed = session.handle({ type: 'flush' });
+		if (flushed?.type === 'flushed' && flushed.note) notes.push(flushed.note);
+
+		const offline = await new OfflineAnalyzer(SAMPLE_RATE).analyze(samples);
+		expect(notes.length).toBeGreaterThan(0);
+		expect(notes).toEqual(offline.notes);
+		expect(pitches).toEqual(offline.pitchTrack);
+	});
+
+	it('reports samples sent before start', () => {
+		const event = new AnalysisSession().handle({ type: 'samples', samples: new Float32Array(CHUNK_SIZE) });
+		expect(event?.type).toBe('error');
+	});
+
+	it('flushes nothing before start', () => {
+		expect(new AnalysisSession().handle({ type: 'flush' })).toEqual({ type: 'flushed', note: null });
+	});
+});
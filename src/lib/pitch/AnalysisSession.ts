@@ -0,0 +1,33 @@
+import { FrameAnalyzer } from '$lib/pitch/FrameAnalyzer';
+import type { AnalysisEvent, AnalysisRequest } from '$lib/pitch/AnalysisProtocol';
+
+/**
+ * The analysis worker's side of the protocol: a FrameAnalyzer driven by
+ * requests, answering with events. Kept apart from the worker's globals so
+ * it runs anywhere.
+ */
+export class AnalysisSession {
+	private analyzer: FrameAnalyzer | null = null;
+
+	handle(request: AnalysisRequest): AnalysisEvent | null {
+		switch (request.type) {
+			case 'start':
+				this.analyzer = new FrameAnalyzer(request.sampleRate, request.settings);
+				return null;
+
+			case 'samples': {
+				if (!this.analyzer) return { type: 'error', message: 'Analysis has not been started.' };
+				const frames = this.analyzer.push(request.samples);
+				if (frames.length === 0) return null;
+				return {
+					type: 'frames',
+					pitches: frames.map((frame) => frame.pitch),
+					notes: frames.flatMap((frame) => (frame.note ? [frame.note] : []))
+				};
+			}
+
+			case 'flush':
+				return { type: 'flushed', note: this.analyzer?.flush() ?? null };
+		}
+	}
+}
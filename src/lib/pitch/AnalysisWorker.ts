@@ -0,0 +1,18 @@
+// Web Worker that runs pitch detection and note segmentation off the main thread.
+// Runs in a DedicatedWorkerGlobalScope, which the DOM lib does not describe.
+import { AnalysisSession } from '$lib/pitch/AnalysisSession';
+import type { AnalysisEvent, AnalysisRequest } from '$lib/pitch/AnalysisProtocol';
+
+declare function postMessage(message: AnalysisEvent): void;
+declare function addEventListener(type: 'message', listener: (event: MessageEvent<AnalysisRequest>) => void): void;
+
+const session = new AnalysisSession();
+
+addEventListener('message', (event) => {
+	try {
+		const response = session.handle(event.data);
+		if (response) postMessage(response);
+	} catch (err) {
+		postMessage({ type: 'error', message: err instanceof Error ? err.message : 'Pitch analysis failed' });
+	}
+});
@@ -0,0 +1,72 @@
+import type { PitchAlgorithm, PitchAlgorithmOptions, PitchEstimate } from '$lib/pitch/PitchAlgorithm';
+
+/**
+ * Normalized autocorrelation. Confidence is the correlation between the
+ * window and itself shifted by one period.
+ */
+export class AutocorrelationAlgorithm implements PitchAlgorithm {
+	private readonly minConfidence = 0.7; // weaker correlation is noise rather than pitch
+	// Take the shortest period whose peak is nearly as high as the best,
+	// since every multiple of the period correlates too
+	private readonly peakRatio = 0.9;
+	private readonly sampleRate: number;
+	private readonly minLag: number;
+	private readonly maxLag: number;
+	private correlation: Float32Array;
+
+	constructor({ sampleRate, windowSize, minFrequency, maxFrequency }: PitchAlgorithmOptions) {
+		this.sampleRate = sampleRate;
+		this.maxLag = Math.min(Math.floor(windowSize / 2), Math.ceil(sampleRate / minFrequency));
+		this.minLag = Math.max(2, Math.floor(sampleRate / maxFrequency));
+		this.correlation = new Float32Array(this.maxLag + 2);
+	}
+
+	estimate(buffer: Float32Array): PitchEstimate {
+		const r = this.correlation;
+		const width = buffer.length - this.maxLag - 1;
+
+		let energy = 0;
+		for (let i = 0; i < width; i++) energy += buffer[i] * buffer[i];
+		if (energy === 0) return { frequency: null, confidence: 0 };
+
+		// Energy of the shifted window, slid along one sample per lag
+		let shiftedEnergy = energy;
+		for (let lag = 1; lag < r.length; lag++) {
+			shiftedEnergy += buffer[lag + width - 1] ** 2 - buffer[lag - 1] ** 2;
+			let sum = 0;
+			for (let i = 0; i < width; i++) sum += buffer[i] * buffer[i + lag];
+			const norm = Math.sqrt(energy * Math.max(shiftedEnergy, 0));
+			r[lag] = norm > 0 ? sum / norm : 0;
+		}
+
+		let best = -1;
+		for (let lag = this.minLag; lag <= this.maxLag; lag++) {
+			if (best === -1 || r[lag] > r[best]) best = lag;
+		}
+
+		let lag = best;
+		for (let t = this.minLag; t <= this.maxLag; t++) {
+			const isPeak = r[t] >= r[t - 1] && r[t] >= r[t + 1];
+			if (isPeak && r[t] >= this.peakRatio * r[best]) {
+				lag = t;
+				break;
+			}
+		}
+
+		const confidence = Math.max(0, Math.min(1, r[lag]));
+		if (confidence < this.minConfidence) {
+			return { frequency: null, confidence };
+		}
+		return { frequency: this.sampleRate / this.interpolate(lag), confidence };
+	}
+
+	/**
+	 * Refine a lag to the top of a parabola through its neighbours
+	 */
+	private interpolate(lag: number): number {
+		const r = this.correlation;
+		const [a, b, c] = [r[lag - 1], r[lag], r[lag + 1]];
+		const denominator = a + c - 2 * b;
+		return denominator < 0 ? lag + (a - c) / (2 * denominator) : lag;
+	}
+}
@@ -0,0 +1,171 @@
+import type { PitchDetectorSettings } from '$lib/pitch/PitchDetector';
+import type { NoteQuantizerSettings } from '$lib/pitch/NoteQuantizer';
+
+/**
+ * Everything that shapes how pitch becomes notes, apart from the analysis window
+ */
+export type DetectionSettings = Omit<PitchDetectorSettings, 'windowSize'> & NoteQuantizerSettings;
+
+export type DetectionProfileId = 'untrained-voice' | 'trained-singer' | 'whistle' | 'bass-voice' | 'instrument';
+
+export interface DetectionProfile {
+	id: DetectionProfileId;
+	label: string;
+	description: string;
+	settings: DetectionSettings;
+}
+
+export const DEFAULT_DETECTION_PROFILE: DetectionProfileId = 'untrained-voice';
+
+// Frame counts assume the analyzer's ~60 frames per second
+export const DETECTION_PROFILES: DetectionProfile[] = [
+	{
+		id: 'untrained-voice',
+		label: 'Untrained voice',
+		description: 'Heavy smoothing and slow note changes, forgiving of wobbly pitch',
+		settings: {
+			algorithm: 'yin',
+			minFrequency: 80,
+			maxFrequency: 1000,
+			minLevel: 0.0001,
+			historySize: 12,
+			smoothingFactor: 0.15,
+			firstNoteConfirmations: 5,
+			leapConfirmations: 6,
+			semitoneConfirmations: 8,
+			resetFrames: 6,
+			minStableDuration: 0.18,
+			minClarity: 0.01,
+			confirmationFrames: 5,
+			silenceThreshold: 8
+		}
+	},
+	{
+		id: 'trained-singer',
+		label: 'Trained singer',
+		description: 'Quicker note changes and shorter notes for singers who hold pitch steadily',
+		settings: {
+			algorithm: 'yin',
+			minFrequency: 80,
+			maxFrequency: 1200,
+			minLevel: 0.0005,
+			historySize: 8,
+			smoothingFactor: 0.3,
+			firstNoteConfirmations: 3,
+			leapConfirmations: 4,
+			semitoneConfirmations: 5,
+			resetFrames: 5,
+			minStableDuration: 0.1,
+			minClarity: 0.2,
+			confirmationFrames: 3,
+			silenceThreshold: 6
+		}
+	},
+	{
+		id: 'whistle',
+		label: 'Whistle',
+		description: 'High, pure tones from about B4 to B7',
+		settings: {
+			algorithm: 'mcleod',
+			minFrequency: 500,
+			maxFrequency: 4000,
+			minLevel: 0.001,
+			historySize: 8,
+			smoothingFactor: 0.3,
+			firstNoteConfirmations: 3,
+			leapConfirmations: 4,
+			semitoneConfirmations: 6,
+			resetFrames: 4,
+			minStableDuration: 0.1,
+			minClarity: 0.5,
+			confirmationFrames: 3,
+			silenceThreshold: 5
+		}
+	},
+	{
+		id: 'bass-voice',
+		label: 'Bass voice',
+		description: 'Low voices down to about G1',
+		settings: {
+			algorithm: 'yin',
+			minFrequency: 48,
+			maxFrequency: 500,
+			minLevel: 0.0001,
+			historySize: 12,
+			smoothingFactor: 0.15,
+			firstNoteConfirmations: 5,
+			leapConfirmations: 6,
+			semitoneConfirmations: 8,
+			resetFrames: 6,
+			minStableDuration: 0.2,
+			minClarity: 0.01,
+			confirmationFrames: 5,
+			silenceThreshold: 8
+		}
+	},
+	{
+		id: 'instrument',
+		label: 'Instrument',
+		description: 'Fast, exact response for steady-pitched instruments',
+		settings: {
+			algorithm: 'mcleod',
+			minFrequency: 60,
+			maxFrequency: 2000,
+			minLevel: 0.001,
+			historySize: 6,
+			smoothingFactor: 0.5,
+			firstNoteConfirmations: 3,
+			leapConfirmations: 3,
+			semitoneConfirmations: 4,
+			resetFrames: 3,
+			minStableDuration: 0.08,
+			minClarity: 0.5,
+			confirmationFrames: 2,
+			silenceThreshold: 4
+		}
+	}
+];
+
+export function getDetectionProfile(id: DetectionProfileId): DetectionProfile {
+	return DETECTION_PROFILES.find((profile) => profile.id === id) ?? DETECTION_PROFILES[0];
+}
+
+type NumericSetting = Exclude<keyof DetectionSettings, 'algorithm'>;
+
+// Bounds for each tunable value, also used for the settings panel's inputs
+export const DETECTION_LIMITS: Record<NumericSetting, { min: number; max: number; step: number }> = {
+	minFrequency: { min: 30, max: 2000, step: 1 },
+	maxFrequency: { min: 100, max: 5000, step: 1 },
+	minLevel: { min: 0, max: 0.1, step: 0.0001 },
+	historySize: { min: 3, max: 30, step: 1 },
+	smoothingFactor: { min: 0.05, max: 1, step: 0.05 },
+	firstNoteConfirmations: { min: 1, max: 30, step: 1 },
+	leapConfirmations: { min: 1, max: 30, step: 1 },
+	semitoneConfirmations: { min: 1, max: 30, step: 1 },
+	resetFrames: { min: 1, max: 30, step: 1 },
+	minStableDuration: { min: 0.02, max: 1, step: 0.01 },
+	minClarity: { min: 0, max: 1, step: 0.01 },
+	confirmationFrames: { min: 1, max: 30, step: 1 },
+	silenceThreshold: { min: 1, max: 60, step: 1 }
+};
+
+/**
+ * Clamp settings into their limits and make them consistent: a frequency
+ * range at least an octave wide, and confirmations the history can hold
+ */
+export function normalizeDetectionSettings(settings: DetectionSettings): DetectionSettings {
+	const result = { ...settings };
+	for (const key of Object.keys(DETECTION_LIMITS) as NumericSetting[]) {
+		const { min, max, step } = DETECTION_LIMITS[key];
+		const value = Number.isFinite(result[key]) ? result[key] : min;
+		const clamped = Math.min(max, Math.max(min, value));
+		result[key] = step >= 1 ? Math.round(clamped) : clamped;
+	}
+
+	result.maxFrequency = Math.max(result.maxFrequency, result.minFrequency * 2);
+	result.firstNoteConfirmations = Math.min(result.firstNoteConfirmations, result.historySize);
+	result.leapConfirmations = Math.min(result.leapConfirmations, result.historySize);
+	result.semitoneConfirmations = Math.min(result.semitoneConfirmations, result.historySize);
+	result.resetFrames = Math.min(result.resetFrames, result.historySize);
+	return result;
+}
@@ -0,0 +1,114 @@
+import { PitchDetector } from '$lib/pitch/PitchDetector';
+import { NoteQuantizer } from '$lib/pitch/NoteQuantizer';
+import type { DetectionSettings } from '$lib/pitch/DetectionProfile';
+import type { PitchData, DetectedNote } from '$lib/types';
+
+export interface AnalysisSettings {
+	windowSize: number; // samples handed to the pitch detector per frame
+	hopSize?: number; // samples between frames, defaults to ~60 frames per second
+	detection?: Partial<DetectionSettings>; // detector and quantizer tuning, their defaults if unset
+}
+
+export interface AnalysisFrame {
+	pitch: PitchData;
+	note: DetectedNote | null; // note finished by this frame, if any
+}
+
+const DEFAULT_SETTINGS: AnalysisSettings = {
+	windowSize: 2048
+};
+
+// Frame-count thresholds in the detector and quantizer were tuned at ~60 fps
+const DEFAULT_FRAMES_PER_SECOND = 60;
+
+/**
+ * Runs PitchDetector and NoteQuantizer over a PCM stream at a fixed hop.
+ * Frames are keyed to sample positions, so the same audio always yields
+ * the same timestamps no matter how it is chunked or how fast it arrives.
+ */
+export class FrameAnalyzer {
+	readonly windowSize: number;
+	readonly hopSize: number;
+
+	private pitchDetector: PitchDetector;
+	private noteQuantizer: NoteQuantizer;
+
+	// Ring buffer holding the most recent windowSize samples
+	private ring: Float32Array;
+	private ringIndex = 0;
+	private window: Float32Array;
+
+	private samplePosition = 0; // total samples consumed
+	private nextFramePosition: number;
+
+	constructor(
+		private readonly sampleRate: number,
+		settings: Partial<AnalysisSettings> = {}
+	) {
+		const { windowSize, hopSize, detection = {} } = { ...DEFAULT_SETTINGS, ...settings };
+		this.windowSize = windowSize;
+		this.hopSize = hopSize ?? Math.round(sampleRate / DEFAULT_FRAMES_PER_SECOND);
+
+		this.pitchDetector = new PitchDetector(sampleRate, { ...detection, windowSize });
+		this.noteQuantizer = new NoteQuantizer(detection);
+		this.ring = new Float32Array(windowSize);
+		this.window = new Float32Array(windowSize);
+		// The first frame needs a full window of audio
+		this.nextFramePosition = windowSize;
+	}
+
+	/**
+	 * Feed samples, returning one frame per hop boundary crossed
+	 */
+	push(samples: Float32Array): AnalysisFrame[] {
+		const frames: AnalysisFrame[] = [];
+
+		for (let i = 0; i < samples.length; i++) {
+			this.ring[this.ringIndex] = samples[i];
+			this.ringIndex = (this.ringIndex + 1) % this.windowSize;
+			this.samplePosition++;
+
+			if (this.samplePosition === this.nextFramePosition) {
+				frames.push(this.analyzeFrame());
+				this.nextFramePosition += this.hopSize;
+			}
+		}
+
+		return frames;
+	}
+
+	/**
+	 * Finish the note in progress at the current stream position
+	 */
+	flush(): DetectedNote | null {
+		return this.noteQuantizer.flush(this.getCurrentTime());
+	}
+
+	/**
+	 * Stream position in seconds, on the audio clock
+	 */
+	getCurrentTime(): number {
+		return this.samplePosition / this.sampleRate;
+	}
+
+	reset(): void {
+		this.pitchDetector.reset();
+		this.noteQuantizer.reset();
+		this.ring.fill(0);
+		this.ringIndex = 0;
+		this.samplePosition = 0;
+		this.nextFramePosition = this.windowSize;
+	}
+
+	private analyzeFrame(): AnalysisFrame {
+		// Unroll the ring buffer so the oldest sample comes first
+		const tail = this.windowSize - this.ringIndex;
+		this.window.set(this.ring.subarray(this.ringIndex), 0);
+		this.window.set(this.ring.subarray(0, this.ringIndex), tail);
+
+		// Timestamp the frame at its last sample
+		const pitch = this.pitchDetector.detect(this.window, this.getCurrentTime());
+		const note = this.noteQuantizer.processFrame(pitch);
+		return { pitch, note };
+	}
+}
@@ -0,0 +1,76 @@
+import type { PitchAlgorithm, PitchAlgorithmOptions, PitchEstimate } from '$lib/pitch/PitchAlgorithm';
+
+/**
+ * McLeod Pitch Method (McLeod & Wyvill, 2005). Confidence is the height of
+ * the chosen normalized square difference peak, 1 for a perfectly periodic window.
+ */
+export class McLeodAlgorithm implements PitchAlgorithm {
+	private readonly minConfidence = 0.7; // weaker peaks are noise rather than pitch
+	// Take the first peak at least this share of the highest, which avoids
+	// picking a multiple of the period
+	private readonly cutoff = 0.93;
+	private readonly sampleRate: number;
+	private readonly minLag: number;
+	private readonly maxLag: number;
+	private nsdf: Float32Array;
+
+	constructor({ sampleRate, windowSize, minFrequency, maxFrequency }: PitchAlgorithmOptions) {
+		this.sampleRate = sampleRate;
+		// Long lags overlap too little of the window to be trusted
+		this.maxLag = Math.min(Math.floor(windowSize / 2), Math.ceil(sampleRate / minFrequency));
+		this.minLag = Math.max(2, Math.floor(sampleRate / maxFrequency));
+		this.nsdf = new Float32Array(this.maxLag + 2);
+	}
+
+	estimate(buffer: Float32Array): PitchEstimate {
+		const nsdf = this.nsdf;
+		const n = buffer.length;
+
+		// Normalized square difference: autocorrelation over the energy of both overlapping parts
+		for (let lag = 0; lag < nsdf.length; lag++) {
+			let correlation = 0;
+			let energy = 0;
+			for (let i = 0; i < n - lag; i++) {
+				correlation += buffer[i] * buffer[i + lag];
+				energy += buffer[i] * buffer[i] + buffer[i + lag] * buffer[i + lag];
+			}
+			nsdf[lag] = energy > 0 ? (2 * correlation) / energy : 0;
+		}
+
+		// Highest point between each pair of zero crossings, after the first dip below zero
+		const peaks: { lag: number; value: number }[] = [];
+		let lag = 1;
+		while (lag < nsdf.length - 1 && nsdf[lag] > 0) lag++;
+		let best = -1;
+		for (; lag < nsdf.length - 1; lag++) {
+			if (nsdf[lag] <= 0) {
+				if (best !== -1) peaks.push(this.interpolate(best));
+				best = -1;
+			} else if (nsdf[lag] > nsdf[lag - 1] && nsdf[lag] >= nsdf[lag + 1] && (best === -1 || nsdf[lag] > nsdf[best])) {
+				best = lag;
+			}
+		}
+		if (best !== -1) peaks.push(this.interpolate(best));
+
+		const candidates = peaks.filter((peak) => peak.lag >= this.minLag && peak.lag <= this.maxLag);
+		if (candidates.length === 0) return { frequency: null, confidence: 0 };
+
+		const highest = Math.max(...candidates.map((peak) => peak.value));
+		const chosen = candidates.find((peak) => peak.value >= this.cutoff * highest)!;
+		const confidence = Math.max(0, Math.min(1, chosen.value));
+		return {
+			frequency: confidence >= this.minConfidence ? this.sampleRate / chosen.lag : null,
+			confidence
+		};
+	}
+
+	/**
+	 * Refine a peak to the top of a parabola through its neighbours
+	 */
+	private interpolate(lag: number): { lag: number; value: number } {
+		const [a, b, c] = [this.nsdf[lag - 1], this.nsdf[lag], this.nsdf[lag + 1]];
+		const denominator = a + c - 2 * b;
+		if (denominator >= 0) return { lag, value: b };
+		return { lag: lag + (a - c) / (2 * denominator), value: b - ((a - c) * (a - c)) / (8 * denominator) };
+	}
+}
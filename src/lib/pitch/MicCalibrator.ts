@@ -0,0 +1,148 @@
+import { createPitchAlgorithm, type PitchAlgorithm } from '$lib/pitch/PitchAlgorithm';
+import type { Calibration } from '$lib/types';
+
+export type CalibrationStep = 'noise' | 'low' | 'high';
+
+export interface CalibrationReading {
+	level: number; // RMS of the latest window
+	frequency: number | null; // Hz, while a note step is running
+}
+
+const WINDOW_SIZE = 2048;
+const READINGS_PER_SECOND = 30;
+// Widest range a voice, whistle or instrument is searched in
+const SEARCH_MIN_FREQUENCY = 40;
+const SEARCH_MAX_FREQUENCY = 2000;
+// Only clearly pitched windows count towards a sung note
+const MIN_CONFIDENCE = 0.8;
+// Seconds of steady pitch needed for a note step to count
+const MIN_NOTE_SECONDS = 0.5;
+// The noise gate sits this far above the room's noise (about 6 dB)
+const GATE_RATIO = 2;
+const MIN_GATE = 0.0001;
+const MAX_GATE = 0.05;
+// Semitones of headroom kept past the sung low and high notes
+const RANGE_MARGIN = 3;
+
+/**
+ * Measures a microphone and singer: the room's noise with nobody singing,
+ * then the lowest and highest notes the singer holds comfortably
+ */
+export class MicCalibrator {
+	private algorithm: PitchAlgorithm;
+	private window = new Float32Array(WINDOW_SIZE);
+	private filled = 0;
+	private untilReading = 0;
+	private readonly hopSize: number;
+
+	private noiseLevels: number[] = [];
+	private pitches: Record<'low' | 'high', number[]> = { low: [], high: [] };
+	private step: CalibrationStep = 'noise';
+
+	constructor(private readonly sampleRate: number) {
+		this.hopSize = Math.round(sampleRate / READINGS_PER_SECOND);
+		this.algorithm = createPitchAlgorithm('yin', {
+			sampleRate,
+			windowSize: WINDOW_SIZE,
+			minFrequency: SEARCH_MIN_FREQUENCY,
+			maxFrequency: SEARCH_MAX_FREQUENCY
+		});
+	}
+
+	/**
+	 * Start a step, discarding anything measured for it before
+	 */
+	begin(step: CalibrationStep): void {
+		this.step = step;
+		this.filled = 0;
+		this.untilReading = WINDOW_SIZE;
+		if (step === 'noise') this.noiseLevels = [];
+		else this.pitches[step] = [];
+	}
+
+	/**
+	 * Feed microphone samples, returning the latest reading if a window completed
+	 */
+	push(samples: Float32Array): CalibrationReading | null {
+		let reading: CalibrationReading | null = null;
+
+		for (let i = 0; i < samples.length; i++) {
+			// Keep the newest WINDOW_SIZE samples, shifting once per reading
+			if (this.filled === WINDOW_SIZE) {
+				this.window.copyWithin(0, this.hopSize);
+				this.filled -= this.hopSize;
+			}
+			this.window[this.filled++] = samples[i];
+			if (--this.untilReading > 0) continue;
+
+			this.untilReading = this.hopSize;
+			reading = this.read();
+		}
+		return reading;
+	}
+
+	/**
+	 * Check a finished step measured enough. Throws with a message for the
+	 * singer if it needs repeating.
+	 */
+	end(step: CalibrationStep): void {
+		if (step === 'noise') {
+			if (this.noiseLevels.length === 0) {
+				throw new Error('The room noise could not be measured. Please try again.');
+			}
+		} else if (this.pitches[step].length / READINGS_PER_SECOND < MIN_NOTE_SECONDS) {
+			throw new Error('No steady note was heard. Please sing it again, a little louder.');
+		}
+	}
+
+	/**
+	 * Turn the three steps into detector settings. Throws if the notes
+	 * don't make a usable range.
+	 */
+	finish(deviceId: string, deviceLabel: string): Calibration {
+		const noiseLevel = this.percentile(this.noiseLevels, 0.9);
+		const lowFrequency = this.percentile(this.pitches.low, 0.5);
+		const highFrequency = this.percentile(this.pitches.high, 0.5);
+		if (highFrequency < lowFrequency * 2 ** (2 / 12)) {
+			throw new Error('The high note was not above the low note. Please sing both again.');
+		}
+
+		const margin = 2 ** (RANGE_MARGIN / 12);
+		return {
+			deviceId,
+			deviceLabel,
+			noiseLevel,
+			lowFrequency,
+			highFrequency,
+			minLevel: Math.min(MAX_GATE, Math.max(MIN_GATE, noiseLevel * GATE_RATIO)),
+			minFrequency: Math.round(lowFrequency / margin),
+			maxFrequency: Math.round(highFrequency * margin),
+			calibratedAt: Date.now()
+		};
+	}
+
+	private read(): CalibrationReading {
+		let sum = 0;
+		for (let i = 0; i < WINDOW_SIZE; i++) {
+			sum += this.window[i] * this.window[i];
+		}
+		const level = Math.sqrt(sum / WINDOW_SIZE);
+
+		if (this.step === 'noise') {
+			this.noiseLevels.push(level);
+			return { level, frequency: null };
+		}
+
+		const { frequency, confidence } = this.algorithm.estimate(this.window);
+		if (frequency === null || confidence < MIN_CONFIDENCE) {
+			return { level, frequency: null };
+		}
+		this.pitches[this.step].push(frequency);
+		return { level, frequency };
+	}
+
+	private percentile(values: number[], fraction: number): number {
+		const sorted = [...values].sort((a, b) => a - b);
+		return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+	}
+}
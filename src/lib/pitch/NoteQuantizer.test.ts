@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { NoteQuantizer } from '$lib/pitch/NoteQuantizer';
+import { OfflineAnalyzer } from '$lib/pitch/OfflineAnalyzer';
+import { SEGMENTATION_CORPUS } from '$lib/testing/SyntheticCorpus';
+import { expectedNotes, renderMelody } from '$lib/testing/SyntheticVoice';
+import type { DetectedNote, PitchData } from '$lib/types';
+
+const SAMPLE_RATE = 44100;
+// Onsets are compared relative to the first note, since analysis delays every note alike
+const ONSET_TOLERANCE = 0.08; // seconds
+
+async function transcribe(samples: Float32Array): Promise<DetectedNote[]> {
+	const { notes } = await new OfflineAnalyzer(SAMPLE_RATE).analyze(samples);
+	return notes;
+}
+
+describe('NoteQuantizer on synthetic singing', () => {
+	for (const testCase of SEGMENTATION_CORPUS) {
+		it(`${testCase.name}: ${testCase.description}`, async () => {
+			const notes = await transcribe(renderMelody(testCase.notes, { sampleRate: SAMPLE_RATE }));
+			const expected = expectedNotes(testCase.notes);
+
+			expect(notes.map((note) => note.midiNumber)).toEqual(expected.map((note) => note.midiNumber));
+			notes.forEach((note, i) => {
+				const onset = note.startTime - notes[0].startTime;
+				const expectedOnset = expected[i].startTime - expected[0].startTime;
+				expect(Math.abs(onset - expectedOnset), `onset of note ${i + 1}`).toBeLessThan(ONSET_TOLERANCE);
+			});
+		});
+	}
+
+	it('keeps a vibrato note at its center pitch', async () => {
+		const [note] = await transcribe(renderMelody([{ midi: 57, duration: 2, vibrato: { rate: 5.5, depth: 50 } }]));
+		const cents = 1200 * Math.log2(note.frequency / 220);
+		expect(Math.abs(cents)).toBeLessThan(10);
+	});
+});
+
+describe('NoteQuantizer on pitch frames', () => {
+	const FRAME = 1 / 60;
+
+	function frames(pitches: (number | null)[]): PitchData[] {
+		return pitches.map((midi, i) => ({
+			frequency: midi === null ? null : 440 * Math.pow(2, (midi - 69) / 12),
+			clarity: midi === null ? 0 : 1,
+			timestamp: i * FRAME
+		}));
+	}
+
+	function run(data: PitchData[]): DetectedNote[] {
+		const quantizer = new NoteQuantizer();
+		const notes = data.flatMap((frame) => quantizer.processFrame(frame) ?? []);
+		const last = quantizer.flush(data.length * FRAME);
+		return last ? [...notes, last] : notes;
+	}
+
+	it('segments frames without raw pitch or level, as in older pitch tracks', () => {
+		const notes = run(frames([...Array(30).fill(60), ...Array(30).fill(62), ...Array(10).fill(null)]));
+		expect(notes.map((note) => note.midiNumber)).toEqual([60, 62]);
+		expect(notes[1].startTime).toBeCloseTo(30 * FRAME, 1);
+	});
+
+	it('ends a note where the silence starts', () => {
+		const notes = run(frames([...Array(30).fill(60), ...Array(20).fill(null)]));
+		expect(notes).toHaveLength(1);
+		expect(notes[0].duration).toBeCloseTo(30 * FRAME, 5);
+	});
+
+	it('ignores blips shorter than the confirmation', () => {
+		const notes = run(frames([...Array(3).fill(60), ...Array(20).fill(null)]));
+		expect(notes).toHaveLength(0);
+	});
+
+	it('drops single-frame octave errors', () => {
+		const pitches = Array(40).fill(60);
+		pitches[12] = 72;
+		pitches[25] = 48;
+		expect(run(frames(pitches)).map((note) => note.midiNumber)).toEqual([60]);
+	});
+});
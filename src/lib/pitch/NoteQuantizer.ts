@@ -4,22 +4,84 @@ const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#',
 const A4_FREQUENCY = 440;
 const A4_MIDI = 69;
 
+export interface NoteQuantizerSettings {
+	minStableDuration: number; // seconds, shorter notes are discarded
+	minClarity: number; // 0-1, frames with less pitch confidence count as silence
+	confirmationFrames: number; // frames needed to confirm a note start or pitch change
+	silenceThreshold: number; // frames of silence before ending a note
+}
+
+// Tuned for untrained singers - very forgiving
+const DEFAULT_SETTINGS: NoteQuantizerSettings = {
+	minStableDuration: 0.18,
+	minClarity: 0.01, // very sensitive for mobile
+	confirmationFrames: 5,
+	silenceThreshold: 8
+};
+
+// Frame counts below assume ~60 frames per second, like the settings
+
+// Median over this many frames removes single-frame octave jumps
+const MEDIAN_FRAMES = 5;
+// Averaging over one vibrato cycle (5 Hz) leaves the pitch it wobbles around
+const VIBRATO_FRAMES = 12;
+// The averaged pitch moving faster than this is a glide, not a held note
+const GLIDE_RATE = 4; // semitones per second
+const SLOPE_FRAMES = 6;
+// The averaged pitch this far from the note's center is a new note
+const SPLIT_DISTANCE = 0.6; // semitones
+// A repeated note ("la-la") shows as the level dropping below DIP_RATIO of
+// the note's peak within MAX_DIP_FRAMES of being loud, then recovering to
+// REATTACK_RATIO of the peak within MAX_DIP_FRAMES
+const DIP_RATIO = 0.5;
+const REATTACK_RATIO = 0.7;
+const LOUD_RATIO = 0.8;
+const MAX_DIP_FRAMES = 15;
+
+interface SegmentFrame {
+	timestamp: number;
+	midi: number | null; // median-filtered pitch, null when unvoiced
+	average: number | null; // pitch averaged over the vibrato window ending here
+	stable: boolean; // voiced and its averaged pitch settled, so it counts towards the note's pitch
+	level: number | null;
+}
+
+/**
+ * Splits a stream of pitch frames into notes. Each note is modelled as a
+ * center pitch that vibrato wobbles around; the note changes when the pitch,
+ * averaged over a vibrato cycle, settles away from that center. Glides
+ * between notes are kept out of both notes' pitch, and a dip and recovery in
+ * level splits repeated notes on the same pitch.
+ */
 export class NoteQuantizer {
-	// Tuned for untrained singers - very forgiving
-	private readonly minStableDuration = 0.18; // 180ms minimum note duration
-	private readonly minClarity = 0.01; // minimum signal clarity - very sensitive for mobile
-	private readonly confirmationFrames = 5; // frames needed to confirm note change
-
-	private currentNoteStart: number | null = null;
-	private currentMidi: number | null = null;
-	private frequencySum: number = 0;
-	private frequencyCount: number = 0;
-
-	// For hysteresis - track pending note changes
-	private pendingMidi: number | null = null;
-	private pendingCount: number = 0;
-	private silenceCount: number = 0;
-	private readonly silenceThreshold = 8; // frames of silence before ending note
+	private settings: NoteQuantizerSettings;
+
+	// The note being tracked, frame by frame from its start
+	private frames: SegmentFrame[] = [];
+	private pitchFrom = 0; // first frame of the note that sets its pitch
+	private centerSum = 0;
+	private centerCount = 0;
+	private changeStart: number | null = null; // first frame of a run away from the center
+
+	// Voiced frames waiting to confirm the first note after silence
+	private pending: SegmentFrame[] = [];
+	private silenceCount = 0;
+	private silenceStart = 0;
+
+	// Pitch smoothing, carried across note changes but cleared by silence
+	private medianWindow: number[] = [];
+	private vibratoWindow: number[] = [];
+	private slopeHistory: { timestamp: number; pitch: number; median: number }[] = [];
+
+	// Level envelope for onsets
+	private peakLevel = 0;
+	private lastLoud = 0; // frame index
+	private dipStart: number | null = null;
+	private dipLowest = 0; // frame index
+
+	constructor(settings: Partial<NoteQuantizerSettings> = {}) {
+		this.settings = { ...DEFAULT_SETTINGS, ...settings };
+	}
 
 	frequencyToNoteInfo(frequency: number): NoteInfo {
 		// Convert frequency to MIDI number
@@ -42,135 +104,274 @@ export class NoteQuantizer {
 	}
 
 	processFrame(pitchData: PitchData): DetectedNote | null {
-		const { frequency, clarity, timestamp } = pitchData;
+		const { clarity, timestamp } = pitchData;
+		// Segment on the frame's own estimate where the detector provides one
+		const frequency = pitchData.rawFrequency !== undefined ? pitchData.rawFrequency : pitchData.frequency;
+		const level = pitchData.level ?? null;
 
-		// No valid pitch detected or too quiet
-		if (frequency === null || clarity < this.minClarity) {
-			this.silenceCount++;
-			this.pendingMidi = null;
-			this.pendingCount = 0;
+		if (frequency === null || clarity < this.settings.minClarity) {
+			return this.processSilence(timestamp, level);
+		}
+		this.silenceCount = 0;
+
+		const midi = 12 * Math.log2(frequency / A4_FREQUENCY) + A4_MIDI;
+		const { median, average, moving, gliding } = this.smooth(midi, timestamp);
+		const frame: SegmentFrame = { timestamp, midi: median, average, stable: !moving, level };
 
-			// End current note after enough silence
-			if (this.silenceCount >= this.silenceThreshold && this.currentMidi !== null) {
-				return this.finishCurrentNote(timestamp);
+		if (this.frames.length === 0) {
+			this.pending.push(frame);
+			if (this.pending.length >= this.settings.confirmationFrames) {
+				this.startNote(this.pending);
+				this.pending = [];
 			}
 			return null;
 		}
 
-		// Reset silence counter when we have a pitch
+		this.frames.push(frame);
+		return this.checkOnset() ?? this.checkPitchChange(average, moving, gliding);
+	}
+
+	// Call this when recording stops to get any remaining note
+	flush(endTime: number): DetectedNote | null {
+		const end = this.silenceCount > 0 ? this.silenceStart : endTime;
+		const note = this.frames.length > 0 ? this.buildNote(this.frames, end) : null;
+		this.reset();
+		return note;
+	}
+
+	reset(): void {
+		this.frames = [];
+		this.pending = [];
 		this.silenceCount = 0;
+		this.clearSmoothing();
+		this.resetTracking(0);
+	}
 
-		const noteInfo = this.frequencyToNoteInfo(frequency);
+	private processSilence(timestamp: number, level: number | null): DetectedNote | null {
+		this.pending = [];
+		if (this.silenceCount === 0) {
+			this.silenceStart = timestamp;
+		}
+		this.silenceCount++;
 
-		// Check if this is the same note as current (allow 1 semitone tolerance for wobbly singing)
-		if (this.currentMidi !== null) {
-			const distance = Math.abs(noteInfo.midiNumber - this.currentMidi);
-			if (distance <= 1) {
-				// Same note or adjacent - keep tracking current note
-				// Only add to average if it's exactly the same note
-				if (distance === 0) {
-					this.frequencySum += frequency;
-					this.frequencyCount++;
-				}
-				// Reset any pending note change
-				this.pendingMidi = null;
-				this.pendingCount = 0;
-				return null;
-			}
+		if (this.frames.length === 0) {
+			if (this.silenceCount >= this.settings.silenceThreshold) this.clearSmoothing();
+			return null;
 		}
 
-		// Different note detected (2+ semitones away) - use hysteresis
-		if (noteInfo.midiNumber === this.pendingMidi) {
-			// Same as pending - increment confirmation counter
-			this.pendingCount++;
+		// Short gaps stay inside the note, where they can mark a repeated note
+		this.frames.push({ timestamp, midi: null, average: null, stable: false, level });
+		if (this.silenceCount < this.settings.silenceThreshold) {
+			return this.checkOnset();
+		}
 
-			if (this.pendingCount >= this.confirmationFrames) {
-				// Confirmed new note - finish previous and start new
-				const finishedNote = this.finishCurrentNote(timestamp);
+		const note = this.buildNote(this.frames, this.silenceStart);
+		this.frames = [];
+		this.clearSmoothing();
+		this.resetTracking(0);
+		return note;
+	}
+
+	/**
+	 * Median-filter the pitch, average it over a vibrato cycle and measure
+	 * how fast the average is moving. A step to the next note moves the
+	 * average too, but unlike a glide the median has already settled.
+	 */
+	private smooth(
+		midi: number,
+		timestamp: number
+	): { median: number; average: number; moving: boolean; gliding: boolean } {
+		this.medianWindow.push(midi);
+		if (this.medianWindow.length > MEDIAN_FRAMES) this.medianWindow.shift();
+		const median = this.median(this.medianWindow);
 
-				// Start tracking new note
-				this.currentNoteStart = timestamp;
-				this.currentMidi = noteInfo.midiNumber;
-				this.frequencySum = frequency;
-				this.frequencyCount = 1;
-				this.pendingMidi = null;
-				this.pendingCount = 0;
+		this.vibratoWindow.push(median);
+		if (this.vibratoWindow.length > VIBRATO_FRAMES) this.vibratoWindow.shift();
+		const average = this.vibratoWindow.reduce((sum, value) => sum + value, 0) / this.vibratoWindow.length;
 
-				return finishedNote;
+		this.slopeHistory.push({ timestamp, pitch: average, median });
+		if (this.slopeHistory.length > SLOPE_FRAMES + 1) this.slopeHistory.shift();
+		const oldest = this.slopeHistory[0];
+		const elapsed = timestamp - oldest.timestamp;
+		const measured = this.slopeHistory.length > SLOPE_FRAMES / 2 && elapsed > 0;
+		// Still catching up with the pitch, which may have stepped too recently to show in the slope
+		const moving =
+			(measured && Math.abs(average - oldest.pitch) / elapsed > GLIDE_RATE) ||
+			Math.abs(median - average) >= SPLIT_DISTANCE;
+		const gliding = measured && moving && Math.abs(median - oldest.median) / elapsed > GLIDE_RATE;
+
+		return { median, average, moving, gliding };
+	}
+
+	/**
+	 * Split when the averaged pitch has stayed away from the note's center
+	 * for long enough. Glides never confirm a change on their own, so a
+	 * slide between two notes gives two notes rather than one per semitone.
+	 * Frames where the average is still catching up with a step can confirm
+	 * the change but count towards neither note's pitch.
+	 */
+	private checkPitchChange(average: number, moving: boolean, gliding: boolean): DetectedNote | null {
+		const index = this.frames.length - 1;
+		if (gliding) return null;
+
+		const center = this.centerCount > 0 ? this.centerSum / this.centerCount : average;
+		if (Math.abs(average - center) < SPLIT_DISTANCE) {
+			// Vibrato, scoops and drift within the note
+			this.changeStart = null;
+			if (!moving) {
+				this.centerSum += this.frames[index].midi!;
+				this.centerCount++;
 			}
-		} else {
-			// Different from pending - start new pending
-			this.pendingMidi = noteInfo.midiNumber;
-			this.pendingCount = 1;
+			return null;
 		}
 
-		// If no current note yet, start one after confirmation
-		if (this.currentMidi === null && this.pendingCount >= this.confirmationFrames) {
-			this.currentNoteStart = timestamp;
-			this.currentMidi = noteInfo.midiNumber;
-			this.frequencySum = frequency;
-			this.frequencyCount = 1;
-			this.pendingMidi = null;
-			this.pendingCount = 0;
-		} else if (this.currentMidi === null) {
-			// Track pending for first note
-			if (this.pendingMidi === null) {
-				this.pendingMidi = noteInfo.midiNumber;
-				this.pendingCount = 1;
+		this.changeStart ??= index;
+		if (index - this.changeStart + 1 < this.settings.confirmationFrames) return null;
+
+		// The averaged pitch crosses halfway to the new note once half its
+		// window has changed, so the change itself came half a window earlier,
+		// and half the median window before that. The new pitch comes from the
+		// median, as the average may still be on its way there.
+		const changed = this.frames.slice(this.changeStart).filter((frame) => frame.midi !== null);
+		const target = changed.reduce((sum, frame) => sum + frame.midi!, 0) / changed.length;
+		const halfway = (center + target) / 2;
+		const rising = target > center;
+		let crossing = this.changeStart;
+		while (crossing > 1) {
+			const previous = this.frames[crossing - 1].average;
+			if (previous !== null && previous > halfway !== rising) break;
+			crossing--;
+		}
+		const boundary = Math.max(1, crossing - Math.floor(VIBRATO_FRAMES / 2) - Math.floor(MEDIAN_FRAMES / 2));
+		return this.split(boundary, this.changeStart);
+	}
+
+	/**
+	 * Split at the lowest point of a quick dip in level once it recovers
+	 */
+	private checkOnset(): DetectedNote | null {
+		const index = this.frames.length - 1;
+		const level = this.frames[index].level;
+		if (level === null) return null;
+
+		if (this.dipStart === null) {
+			if (level >= this.peakLevel * LOUD_RATIO) this.lastLoud = index;
+			this.peakLevel = Math.max(this.peakLevel, level);
+			if (level < this.peakLevel * DIP_RATIO) {
+				if (index - this.lastLoud <= MAX_DIP_FRAMES) {
+					this.dipStart = index;
+					this.dipLowest = index;
+				} else {
+					// A slow fade: follow the level down instead
+					this.peakLevel = level;
+					this.lastLoud = index;
+				}
 			}
+			return null;
 		}
 
+		if (level < (this.frames[this.dipLowest].level ?? 0)) this.dipLowest = index;
+		if (level >= this.peakLevel * REATTACK_RATIO && this.frames[index].midi !== null) {
+			const boundary = this.dipLowest;
+			this.dipStart = null;
+			return this.split(boundary, index);
+		}
+		if (index - this.dipStart > MAX_DIP_FRAMES) {
+			// Too long to be a consonant; let the note carry on at the new level
+			this.dipStart = null;
+			this.peakLevel = level;
+			this.lastLoud = index;
+		}
 		return null;
 	}
 
-	private finishCurrentNote(endTime: number): DetectedNote | null {
-		if (this.currentNoteStart === null || this.currentMidi === null) {
-			this.resetTracking();
+	/**
+	 * End the note at a frame and carry on with the rest as a new one, whose
+	 * pitch comes from pitchFrom on. A first part too short to be a note is
+	 * a scoop or fall into the new one, so only its pitch is dropped.
+	 */
+	private split(boundary: number, pitchFrom: number): DetectedNote | null {
+		const before = this.frames.slice(0, boundary);
+		const after = this.frames.slice(boundary);
+
+		if (after[0].timestamp - before[0].timestamp < this.settings.minStableDuration) {
+			this.resetTracking(pitchFrom);
 			return null;
 		}
 
-		const duration = endTime - this.currentNoteStart;
+		const note = this.buildNote(before, after[0].timestamp);
+		this.frames = after;
+		this.resetTracking(pitchFrom - boundary);
+		return note;
+	}
+
+	private startNote(frames: SegmentFrame[]): void {
+		this.frames = frames;
+		this.resetTracking(0);
+	}
+
+	/**
+	 * Restart pitch and onset tracking for the current frames, taking the
+	 * pitch center from the given frame on
+	 */
+	private resetTracking(pitchFrom: number): void {
+		this.pitchFrom = pitchFrom;
+		this.changeStart = null;
+		this.centerSum = 0;
+		this.centerCount = 0;
+		for (const frame of this.frames.slice(pitchFrom)) {
+			if (frame.stable && frame.midi !== null) {
+				this.centerSum += frame.midi;
+				this.centerCount++;
+			}
+		}
+
+		this.dipStart = null;
+		this.peakLevel = 0;
+		this.lastLoud = Math.max(0, this.frames.length - 1);
+		for (const frame of this.frames.slice(pitchFrom)) {
+			this.peakLevel = Math.max(this.peakLevel, frame.level ?? 0);
+		}
+	}
+
+	private buildNote(frames: SegmentFrame[], endTime: number): DetectedNote | null {
+		const startTime = frames[0].timestamp;
+		const duration = endTime - startTime;
 
 		// Note too short - discard
-		if (duration < this.minStableDuration) {
-			this.resetTracking();
+		if (duration < this.settings.minStableDuration) {
 			return null;
 		}
 
-		const avgFrequency = this.frequencyCount > 0
-			? this.frequencySum / this.frequencyCount
-			: 440 * Math.pow(2, (this.currentMidi - 69) / 12); // fallback to MIDI frequency
-		const noteInfo = this.frequencyToNoteInfo(avgFrequency);
+		// The center the vibrato wobbles around, leaving out glides
+		const pitched = frames.slice(this.pitchFrom).filter((frame) => frame.midi !== null && frame.timestamp < endTime);
+		const steady = pitched.filter((frame) => frame.stable);
+		const source = steady.length > 0 ? steady : pitched.length > 0 ? pitched : frames.filter((frame) => frame.midi !== null);
+		if (source.length === 0) return null;
+
+		const center = source.reduce((sum, frame) => sum + frame.midi!, 0) / source.length;
+		const frequency = A4_FREQUENCY * Math.pow(2, (center - A4_MIDI) / 12);
+		const noteInfo = this.frequencyToNoteInfo(frequency);
 
-		const note: DetectedNote = {
+		return {
 			note: noteInfo.note,
 			octave: noteInfo.octave,
 			midiNumber: noteInfo.midiNumber,
-			startTime: this.currentNoteStart,
+			startTime,
 			duration,
-			frequency: avgFrequency
+			frequency
 		};
-
-		this.resetTracking();
-		return note;
-	}
-
-	private resetTracking(): void {
-		this.currentNoteStart = null;
-		this.currentMidi = null;
-		this.frequencySum = 0;
-		this.frequencyCount = 0;
 	}
 
-	// Call this when recording stops to get any remaining note
-	flush(endTime: number): DetectedNote | null {
-		return this.finishCurrentNote(endTime);
+	private clearSmoothing(): void {
+		this.medianWindow = [];
+		this.vibratoWindow = [];
+		this.slopeHistory = [];
 	}
 
-	reset(): void {
-		this.resetTracking();
-		this.pendingMidi = null;
-		this.pendingCount = 0;
-		this.silenceCount = 0;
+	private median(values: number[]): number {
+		const sorted = [...values].sort((a, b) => a - b);
+		const middle = Math.floor(sorted.length / 2);
+		return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
 	}
 }
@@ -0,0 +1,46 @@
+import { FrameAnalyzer, type AnalysisSettings } from '$lib/pitch/FrameAnalyzer';
+import type { DetectedNote, PitchData } from '$lib/types';
+
+export interface OfflineAnalysis {
+	notes: DetectedNote[];
+	pitchTrack: PitchData[]; // every frame's pitch, for drawing the contour
+}
+
+export class OfflineAnalyzer {
+	// Samples to analyze before yielding to the event loop
+	private readonly chunkSize = 32768;
+
+	constructor(
+		private readonly sampleRate: number,
+		private readonly settings: Partial<AnalysisSettings> = {}
+	) {}
+
+	/**
+	 * Run the detection pipeline over a whole buffer, hop by hop
+	 */
+	async analyze(samples: Float32Array, onProgress?: (progress: number) => void): Promise<OfflineAnalysis> {
+		const analyzer = new FrameAnalyzer(this.sampleRate, this.settings);
+		const notes: DetectedNote[] = [];
+		const pitchTrack: PitchData[] = [];
+
+		for (let start = 0; start < samples.length; start += this.chunkSize) {
+			const chunk = samples.subarray(start, start + this.chunkSize);
+			for (const frame of analyzer.push(chunk)) {
+				pitchTrack.push(frame.pitch);
+				if (frame.note) {
+					notes.push(frame.note);
+				}
+			}
+
+			onProgress?.(Math.min(1, (start + this.chunkSize) / samples.length));
+			await new Promise((resolve) => setTimeout(resolve, 0));
+		}
+
+		const finalNote = analyzer.flush();
+		if (finalNote) {
+			notes.push(finalNote);
+		}
+
+		return { notes, pitchTrack };
+	}
+}
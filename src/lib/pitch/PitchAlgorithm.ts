@@ -0,0 +1,42 @@
+import { YinAlgorithm } from '$lib/pitch/YinAlgorithm';
+import { McLeodAlgorithm } from '$lib/pitch/McLeodAlgorithm';
+import { AutocorrelationAlgorithm } from '$lib/pitch/AutocorrelationAlgorithm';
+
+export interface PitchEstimate {
+	frequency: number | null; // Hz, null when the window has no clear pitch
+	confidence: number; // 0-1, how periodic the window is at its best pitch
+}
+
+/**
+ * One way of estimating the pitch of a single window of samples
+ */
+export interface PitchAlgorithm {
+	estimate(buffer: Float32Array): PitchEstimate;
+}
+
+export interface PitchAlgorithmOptions {
+	sampleRate: number;
+	windowSize: number; // samples per estimate
+	minFrequency: number; // Hz, range searched for a pitch
+	maxFrequency: number;
+}
+
+export type PitchAlgorithmName = 'yin' | 'mcleod' | 'autocorrelation';
+
+// Algorithms offered in the UI
+export const PITCH_ALGORITHMS: { value: PitchAlgorithmName; label: string; description: string }[] = [
+	{ value: 'yin', label: 'YIN', description: 'Reliable all-rounder for voice' },
+	{ value: 'mcleod', label: 'McLeod (MPM)', description: 'Tracks fast pitch changes and high notes well' },
+	{ value: 'autocorrelation', label: 'Autocorrelation', description: 'Simple and robust for steady tones' }
+];
+
+export function createPitchAlgorithm(name: PitchAlgorithmName, options: PitchAlgorithmOptions): PitchAlgorithm {
+	switch (name) {
+		case 'mcleod':
+			return new McLeodAlgorithm(options);
+		case 'autocorrelation':
+			return new AutocorrelationAlgorithm(options);
+		default:
+			return new YinAlgorithm(options);
+	}
+}
@@ -1,54 +1,77 @@
-import { YIN } from 'pitchfinder';
 import type { PitchData } from '$lib/types';
+import { createPitchAlgorithm, type PitchAlgorithm, type PitchAlgorithmName } from '$lib/pitch/PitchAlgorithm';
+
+export interface PitchDetectorSettings {
+	algorithm: PitchAlgorithmName;
+	windowSize: number; // samples passed to each detect call
+	minFrequency: number; // Hz, pitches outside the range are ignored
+	maxFrequency: number;
+	minLevel: number; // RMS below which a window is treated as silence, the noise gate
+	historySize: number; // recent frames the median filter and confirmations look at
+	smoothingFactor: number; // 0-1, weight of each new frame while holding a note
+	firstNoteConfirmations: number; // frames in the history needed to lock onto a first note
+	leapConfirmations: number; // ...to move 2 or more semitones
+	semitoneConfirmations: number; // ...to move 1 semitone, higher to stop wobbling between neighbours
+	resetFrames: number; // pitchless frames in the history that drop the held note
+}
+
+// Tuned for untrained singers
+const DEFAULT_SETTINGS: PitchDetectorSettings = {
+	algorithm: 'yin',
+	windowSize: 2048,
+	minFrequency: 80, // lower bound for human voice
+	maxFrequency: 1000, // upper bound for typical singing
+	minLevel: 0.0001, // only true silence, so quiet mobile mics still register
+	historySize: 12, // large window for stability
+	smoothingFactor: 0.15, // very aggressive smoothing
+	firstNoteConfirmations: 5,
+	leapConfirmations: 6,
+	semitoneConfirmations: 8,
+	resetFrames: 6
+};
 
 export class PitchDetector {
-	private detectPitch: (buffer: Float32Array) => number | null;
-	private readonly minFrequency = 80; // Hz - lower bound for human voice
-	private readonly maxFrequency = 1000; // Hz - upper bound for typical singing
+	private algorithm: PitchAlgorithm;
+	private settings: PitchDetectorSettings;
 
-	// Smoothing and stability - tuned for untrained singers
-	private readonly historySize = 12; // Larger window for more stability
 	private pitchHistory: (number | null)[] = [];
 	private smoothedFrequency: number | null = null;
-	private readonly smoothingFactor = 0.15; // Very aggressive smoothing
 	private currentMidiNote: number | null = null; // Track current quantized note
 
-	constructor(sampleRate: number) {
-		this.detectPitch = YIN({
-			sampleRate,
-			threshold: 0.1, // Very sensitive to quiet signals
-			probabilityThreshold: 0.1 // Accept uncertain pitches
-		});
+	constructor(sampleRate: number, settings: Partial<PitchDetectorSettings> = {}) {
+		this.settings = { ...DEFAULT_SETTINGS, ...settings };
+		const { algorithm, windowSize, minFrequency, maxFrequency } = this.settings;
+		this.algorithm = createPitchAlgorithm(algorithm, { sampleRate, windowSize, minFrequency, maxFrequency });
 	}
 
 	detect(audioData: Float32Array, timestamp: number): PitchData {
-		const rawFrequency = this.detectPitch(audioData);
+		const { minFrequency, maxFrequency, minLevel, historySize, smoothingFactor } = this.settings;
+		const level = this.measureLevel(audioData);
+		const { frequency: rawFrequency, confidence } =
+			level >= minLevel ? this.algorithm.estimate(audioData) : { frequency: null, confidence: 0 };
 
 		// Validate frequency is within expected vocal range
 		const validFrequency =
-			rawFrequency !== null && rawFrequency >= this.minFrequency && rawFrequency <= this.maxFrequency
+			rawFrequency !== null && rawFrequency >= minFrequency && rawFrequency <= maxFrequency
 				? rawFrequency
 				: null;
 
 		// Add to history
 		this.pitchHistory.push(validFrequency);
-		if (this.pitchHistory.length > this.historySize) {
+		if (this.pitchHistory.length > historySize) {
 			this.pitchHistory.shift();
 		}
 
 		// Apply median filter to remove outliers
 		const medianFrequency = this.getMedianPitch();
 
-		// Calculate clarity based on signal amplitude
-		const clarity = this.calculateClarity(audioData);
-
 		// Apply note-based stabilization
-		if (medianFrequency !== null && clarity > 0.01) {
+		if (medianFrequency !== null && confidence > 0.01) {
 			const newMidiNote = this.frequencyToMidi(medianFrequency);
 
 			if (this.currentMidiNote === null) {
 				// First note - require strong confirmation
-				if (this.countConfirmedPitches(newMidiNote) >= 5) {
+				if (this.countConfirmedPitches(newMidiNote) >= this.settings.firstNoteConfirmations) {
 					this.currentMidiNote = newMidiNote;
 					this.smoothedFrequency = this.midiToFrequency(newMidiNote);
 				}
@@ -59,12 +82,11 @@ export class PitchDetector {
 				if (semitoneDistance === 0) {
 					// Same note - just smooth the frequency slightly
 					this.smoothedFrequency =
-						this.smoothingFactor * medianFrequency +
-						(1 - this.smoothingFactor) * this.smoothedFrequency!;
+						smoothingFactor * medianFrequency + (1 - smoothingFactor) * this.smoothedFrequency!;
 				} else if (semitoneDistance >= 2) {
 					// Significant jump (2+ semitones) - require strong confirmation
 					const confirmed = this.countConfirmedPitches(newMidiNote);
-					if (confirmed >= 6) {
+					if (confirmed >= this.settings.leapConfirmations) {
 						this.currentMidiNote = newMidiNote;
 						this.smoothedFrequency = this.midiToFrequency(newMidiNote);
 					}
@@ -73,7 +95,7 @@ export class PitchDetector {
 					// Small change (1 semitone) - require very strong confirmation
 					// This prevents wobbling between adjacent notes
 					const confirmed = this.countConfirmedPitches(newMidiNote);
-					if (confirmed >= 8) {
+					if (confirmed >= this.settings.semitoneConfirmations) {
 						this.currentMidiNote = newMidiNote;
 						this.smoothedFrequency = this.midiToFrequency(newMidiNote);
 					}
@@ -82,7 +104,7 @@ export class PitchDetector {
 		} else {
 			// No valid pitch or too quiet - check if we should reset
 			const nullCount = this.pitchHistory.filter((p) => p === null).length;
-			if (nullCount >= 6) {
+			if (nullCount >= this.settings.resetFrames) {
 				this.smoothedFrequency = null;
 				this.currentMidiNote = null;
 			}
@@ -90,11 +112,21 @@ export class PitchDetector {
 
 		return {
 			frequency: this.smoothedFrequency,
-			clarity,
-			timestamp
+			clarity: confidence,
+			timestamp,
+			rawFrequency: validFrequency,
+			level
 		};
 	}
 
+	private measureLevel(audioData: Float32Array): number {
+		let sum = 0;
+		for (let i = 0; i < audioData.length; i++) {
+			sum += audioData[i] * audioData[i];
+		}
+		return Math.sqrt(sum / audioData.length);
+	}
+
 	private frequencyToMidi(frequency: number): number {
 		return Math.round(12 * Math.log2(frequency / 440) + 69);
 	}
@@ -125,17 +157,6 @@ export class PitchDetector {
 			: sorted[mid];
 	}
 
-	private calculateClarity(audioData: Float32Array): number {
-		// RMS amplitude as a proxy for signal clarity
-		let sum = 0;
-		for (let i = 0; i < audioData.length; i++) {
-			sum += audioData[i] * audioData[i];
-		}
-		const rms = Math.sqrt(sum / audioData.length);
-		// Normalize to 0-1 range - high multiplier for mobile sensitivity
-		return Math.min(1, rms * 150);
-	}
-
 	reset(): void {
 		this.pitchHistory = [];
 		this.smoothedFrequency = null;
@@ -0,0 +1,58 @@
+import type { DetectedNote } from '$lib/types';
+
+interface Anchor {
+	from: number;
+	to: number;
+}
+
+/**
+ * Maps times on one note timeline onto another, e.g. from the recording onto
+ * the quantized notes, by stretching linearly between matching note starts
+ * and ends. The two lists must hold the same notes in the same order.
+ */
+export class TimeWarp {
+	private readonly anchors: Anchor[] = [];
+
+	constructor(from: DetectedNote[], to: DetectedNote[]) {
+		if (from.length !== to.length) return;
+
+		const anchors = from
+			.flatMap((note, i) => [
+				{ from: note.startTime, to: to[i].startTime },
+				{ from: note.startTime + note.duration, to: to[i].startTime + to[i].duration }
+			])
+			.sort((a, b) => a.from - b.from);
+
+		// Quantizing can pull neighbouring notes past each other; never map backwards
+		let latest = -Infinity;
+		for (const anchor of anchors) {
+			latest = Math.max(latest, anchor.to);
+			this.anchors.push({ from: anchor.from, to: latest });
+		}
+	}
+
+	map(time: number): number {
+		const anchors = this.anchors;
+		if (anchors.length === 0) return time;
+
+		// Outside the notes, shift by the nearest anchor's offset
+		const first = anchors[0];
+		const last = anchors[anchors.length - 1];
+		if (time <= first.from) return time + first.to - first.from;
+		if (time >= last.from) return time + last.to - last.from;
+
+		// Last anchor at or before the time
+		let low = 0;
+		let high = anchors.length - 1;
+		while (high - low > 1) {
+			const middle = (low + high) >> 1;
+			if (anchors[middle].from <= time) low = middle;
+			else high = middle;
+		}
+
+		const a = anchors[low];
+		const b = anchors[high];
+		const span = b.from - a.from;
+		return span > 0 ? a.to + ((time - a.from) / span) * (b.to - a.to) : a.to;
+	}
+}
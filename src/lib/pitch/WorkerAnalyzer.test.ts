@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WorkerAnalyzer } from '$lib/pitch/WorkerAnalyzer';
+import type { AnalysisRequest } from '$lib/pitch/AnalysisProtocol';
+
+// Stands in for the analysis worker; the test decides when it answers or dies
+class FakeWorker {
+	static last: FakeWorker;
+	onmessage: ((event: { data: unknown }) => void) | null = null;
+	onerror: ((event: { message: string; preventDefault: () => void }) => void) | null = null;
+	requests: AnalysisRequest[] = [];
+	terminated = false;
+
+	constructor() {
+		FakeWorker.last = this;
+	}
+
+	postMessage(request: AnalysisRequest): void {
+		this.requests.push(request);
+	}
+
+	terminate(): void {
+		this.terminated = true;
+	}
+
+	crash(message: string): void {
+		this.onerror?.({ message, preventDefault: () => {} });
+	}
+}
+
+describe('WorkerAnalyzer', () => {
+	beforeEach(() => vi.stubGlobal('Worker', FakeWorker));
+	afterEach(() => vi.unstubAllGlobals());
+
+	it('gives a waiting flush no note and reports the error when the worker dies', async () => {
+		const onError = vi.fn();
+		const analyzer = new WorkerAnalyzer(44100, {}, () => {}, onError);
+		const flushed = analyzer.flush();
+
+		FakeWorker.last.crash('Out of memory');
+
+		await expect(flushed).resolves.toBeNull();
+		expect(onError).toHaveBeenCalledWith('Out of memory');
+		expect(FakeWorker.last.terminated).toBe(true);
+	});
+
+	it('flushes at once after the worker has died', async () => {
+		const analyzer = new WorkerAnalyzer(44100, {}, () => {}, () => {});
+		FakeWorker.last.crash('');
+
+		await expect(analyzer.flush()).resolves.toBeNull();
+		expect(FakeWorker.last.requests.map((request) => request.type)).toEqual(['start']);
+	});
+});
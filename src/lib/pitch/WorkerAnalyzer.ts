@@ -0,0 +1,78 @@
+import analysisWorkerUrl from '$lib/pitch/AnalysisWorker.ts?worker&url';
+import type { AnalysisSettings } from '$lib/pitch/FrameAnalyzer';
+import type { AnalysisEvent, AnalysisRequest } from '$lib/pitch/AnalysisProtocol';
+import type { DetectedNote, PitchData } from '$lib/types';
+
+export type FramesListener = (pitches: PitchData[], notes: DetectedNote[]) => void;
+
+/**
+ * FrameAnalyzer in a Web Worker. The main thread only forwards samples;
+ * frames and finished notes come back through the listener in stream order,
+ * a little after the samples that produced them.
+ */
+export class WorkerAnalyzer {
+	private worker: Worker;
+	private pendingFlushes: ((note: DetectedNote | null) => void)[] = [];
+	private terminated = false;
+
+	constructor(
+		sampleRate: number,
+		settings: Partial<AnalysisSettings>,
+		private readonly onFrames: FramesListener,
+		private readonly onError: (message: string) => void
+	) {
+		this.worker = new Worker(analysisWorkerUrl, { type: 'module' });
+		this.worker.onmessage = (event: MessageEvent<AnalysisEvent>) => this.receive(event.data);
+		// An uncaught worker error leaves nothing to answer flushes
+		this.worker.onerror = (event) => {
+			event.preventDefault();
+			this.terminate();
+			this.onError(event.message || 'Pitch analysis stopped unexpectedly');
+		};
+		this.send({ type: 'start', sampleRate, settings });
+	}
+
+	push(samples: Float32Array): void {
+		this.send({ type: 'samples', samples });
+	}
+
+	/**
+	 * Finish the note in progress once every sample sent so far is analyzed.
+	 * A stopped worker has no note to give.
+	 */
+	flush(): Promise<DetectedNote | null> {
+		if (this.terminated) return Promise.resolve(null);
+		return new Promise((resolve) => {
+			this.pendingFlushes.push(resolve);
+			this.send({ type: 'flush' });
+		});
+	}
+
+	/**
+	 * Stop the worker; flushes still waiting get no note
+	 */
+	terminate(): void {
+		this.terminated = true;
+		this.worker.terminate();
+		this.pendingFlushes.forEach((resolve) => resolve(null));
+		this.pendingFlushes = [];
+	}
+
+	private send(request: AnalysisRequest): void {
+		this.worker.postMessage(request);
+	}
+
+	private receive(event: AnalysisEvent): void {
+		switch (event.type) {
+			case 'frames':
+				this.onFrames(event.pitches, event.notes);
+				break;
+			case 'flushed':
+				this.pendingFlushes.shift()?.(event.note);
+				break;
+			case 'error':
+				this.onError(event.message);
+				break;
+		}
+	}
+}
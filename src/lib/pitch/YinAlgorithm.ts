@@ -0,0 +1,72 @@
+import type { PitchAlgorithm, PitchAlgorithmOptions, PitchEstimate } from '$lib/pitch/PitchAlgorithm';
+
+/**
+ * YIN (de Cheveigné & Kawahara, 2002). Confidence is one minus the
+ * normalized difference at the chosen lag, the share of the window's
+ * power that repeats at that period.
+ */
+export class YinAlgorithm implements PitchAlgorithm {
+	private readonly threshold = 0.1; // normalized difference a lag must dip below to count as periodic
+	private readonly sampleRate: number;
+	private readonly minLag: number;
+	private readonly maxLag: number;
+	private difference: Float32Array;
+
+	constructor({ sampleRate, windowSize, minFrequency, maxFrequency }: PitchAlgorithmOptions) {
+		this.sampleRate = sampleRate;
+		// Half the window is compared against lags of up to half the window
+		const half = Math.floor(windowSize / 2);
+		this.maxLag = Math.min(half - 2, Math.ceil(sampleRate / minFrequency));
+		this.minLag = Math.max(2, Math.floor(sampleRate / maxFrequency));
+		this.difference = new Float32Array(this.maxLag + 2);
+	}
+
+	estimate(buffer: Float32Array): PitchEstimate {
+		const d = this.difference;
+		const width = Math.floor(buffer.length / 2);
+
+		// Difference function, then cumulative mean normalization
+		d[0] = 1;
+		let runningSum = 0;
+		for (let lag = 1; lag < d.length; lag++) {
+			let sum = 0;
+			for (let i = 0; i < width; i++) {
+				const delta = buffer[i] - buffer[i + lag];
+				sum += delta * delta;
+			}
+			runningSum += sum;
+			d[lag] = runningSum > 0 ? (sum * lag) / runningSum : 1;
+		}
+
+		// First dip under the threshold, followed down to its bottom;
+		// otherwise the deepest dip, which only sets the confidence
+		let lag = -1;
+		let best = this.minLag;
+		for (let t = this.minLag; t <= this.maxLag; t++) {
+			if (d[t] < this.threshold) {
+				while (t + 1 <= this.maxLag && d[t + 1] < d[t]) t++;
+				lag = t;
+				break;
+			}
+			if (d[t] < d[best]) best = t;
+		}
+
+		if (lag === -1) {
+			return { frequency: null, confidence: Math.max(0, Math.min(1, 1 - d[best])) };
+		}
+		return {
+			frequency: this.sampleRate / this.interpolate(lag),
+			confidence: Math.max(0, Math.min(1, 1 - d[lag]))
+		};
+	}
+
+	/**
+	 * Refine a lag to the bottom of a parabola through its neighbours
+	 */
+	private interpolate(lag: number): number {
+		const d = this.difference;
+		const [a, b, c] = [d[lag - 1], d[lag], d[lag + 1]];
+		const denominator = a + c - 2 * b;
+		return denominator > 0 ? lag + (a - c) / (2 * denominator) : lag;
+	}
+}
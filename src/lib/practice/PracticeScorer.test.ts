@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { PracticeScorer } from '$lib/practice/PracticeScorer';
+import { midiToPitch } from '$lib/notation/NotePitch';
+import type { PitchData } from '$lib/types';
+
+const FRAME = 1 / 60;
+const C4 = midiToPitch(60);
+
+// A sung C4 from 0.5 s to 1.5 s whose held pitch locks on `confirmation` seconds late
+function singC4(confirmation: number, withRaw: boolean): PitchData[] {
+	return Array.from({ length: 120 }, (_, i) => {
+		const timestamp = i * FRAME;
+		const sung = timestamp >= 0.5 && timestamp < 1.5;
+		const frame: PitchData = {
+			frequency: sung && timestamp >= 0.5 + confirmation ? C4.frequency : null,
+			clarity: sung ? 0.9 : 0,
+			timestamp
+		};
+		return withRaw ? { ...frame, rawFrequency: sung ? C4.frequency : null } : frame;
+	});
+}
+
+describe('PracticeScorer timing', () => {
+	const reference = [{ ...C4, startTime: 0.5, duration: 1 }];
+
+	it('times the entry from the frame that first hears the note', () => {
+		const [score] = new PracticeScorer().score(reference, singC4(0.1, true)).notes;
+		expect(score.timing).toBeCloseTo(0, 2);
+		expect(score.cents).toBe(0);
+	});
+
+	it('falls back to the held pitch for frames without their own estimate', () => {
+		const [score] = new PracticeScorer().score(reference, singC4(0.1, false)).notes;
+		expect(score.timing).toBeCloseTo(0.1, 1);
+	});
+});
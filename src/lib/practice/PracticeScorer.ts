@@ -0,0 +1,137 @@
+import type { DetectedNote, PitchData } from '$lib/types';
+import { NoteQuantizer } from '$lib/pitch/NoteQuantizer';
+
+export interface PracticeSettings {
+	pitchTolerance: number; // cents off at which a note's pitch score reaches 0
+	timingTolerance: number; // seconds early or late at which its timing score reaches 0
+	ignoreOctave: boolean; // singing an octave away from the reference still counts
+}
+
+const DEFAULT_SETTINGS: PracticeSettings = {
+	pitchTolerance: 100,
+	timingTolerance: 0.3,
+	ignoreOctave: true // men and women sing the same tune an octave apart
+};
+
+// Skip the start of each note when judging pitch, where singers scoop into it
+const ATTACK_FRACTION = 0.2;
+const MAX_ATTACK = 0.08; // seconds
+// Fewer frames than this on a note and it counts as not sung
+const MIN_FRAMES = 3;
+// An entry counts once the singer is within this many cents of the note
+const ONSET_CENTS = 100;
+
+export interface NoteScore {
+	note: DetectedNote; // the reference note
+	cents: number | null; // median pitch error, positive when sharp; null if not sung
+	timing: number | null; // seconds the singer came in after the note (negative when early)
+	pitchScore: number; // 0-100
+	timingScore: number; // 0-100
+}
+
+export interface PracticeResult {
+	notes: NoteScore[];
+	pitchScore: number; // 0-100 averages over every reference note
+	timingScore: number;
+	overallScore: number;
+	sungCount: number; // notes the singer attempted
+}
+
+/**
+ * Scores a sung pitch stream against a reference melody, note by note
+ */
+export class PracticeScorer {
+	private settings: PracticeSettings;
+	private noteQuantizer = new NoteQuantizer();
+
+	constructor(settings: Partial<PracticeSettings> = {}) {
+		this.settings = { ...DEFAULT_SETTINGS, ...settings };
+	}
+
+	/**
+	 * Cents from a reference note to a sung frequency, folded to the
+	 * nearest octave when octaves are ignored
+	 */
+	deviation(frequency: number, midiNumber: number): number {
+		const info = this.noteQuantizer.frequencyToNoteInfo(frequency);
+		const cents = (info.midiNumber - midiNumber) * 100 + info.cents;
+		if (!this.settings.ignoreOctave) return cents;
+		return ((((cents + 600) % 1200) + 1200) % 1200) - 600;
+	}
+
+	/**
+	 * Score frames (timestamps on the reference's timeline) against the reference notes
+	 */
+	score(reference: DetectedNote[], frames: PitchData[]): PracticeResult {
+		const voiced = frames.filter((frame) => frame.frequency !== null);
+		const notes = reference.map((note, i) => this.scoreNote(note, reference[i - 1] ?? null, voiced, frames));
+
+		const average = (values: number[]) =>
+			values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+		const pitchScore = average(notes.map((n) => n.pitchScore));
+		const timingScore = average(notes.map((n) => n.timingScore));
+
+		return {
+			notes,
+			pitchScore,
+			timingScore,
+			overallScore: Math.round((pitchScore + timingScore) / 2),
+			sungCount: notes.filter((n) => n.cents !== null).length
+		};
+	}
+
+	private scoreNote(
+		note: DetectedNote,
+		previous: DetectedNote | null,
+		voiced: PitchData[],
+		frames: PitchData[]
+	): NoteScore {
+		const end = note.startTime + note.duration;
+		const attack = Math.min(MAX_ATTACK, note.duration * ATTACK_FRACTION);
+
+		const held = voiced
+			.filter((frame) => frame.timestamp >= note.startTime + attack && frame.timestamp < end)
+			.map((frame) => this.deviation(frame.frequency!, note.midiNumber));
+		const cents = held.length >= MIN_FRAMES ? this.median(held) : null;
+
+		// Look for the entry a little before the note, unless the previous
+		// note has the same pitch and would be mistaken for an early entry
+		const { timingTolerance, pitchTolerance } = this.settings;
+		const samePitch = previous?.midiNumber === note.midiNumber;
+		const searchStart = samePitch ? note.startTime : note.startTime - timingTolerance;
+		const searchEnd = Math.min(end, note.startTime + timingTolerance);
+		// The held pitch only moves after several confirming frames, so the
+		// entry is judged on each frame's own estimate where there is one
+		const entry = frames.find((frame) => {
+			const frequency = frame.rawFrequency !== undefined ? frame.rawFrequency : frame.frequency;
+			return (
+				frequency !== null &&
+				frame.timestamp >= searchStart &&
+				frame.timestamp < searchEnd &&
+				Math.abs(this.deviation(frequency, note.midiNumber)) <= ONSET_CENTS
+			);
+		});
+		const timing = cents !== null && entry ? entry.timestamp - note.startTime : null;
+
+		return {
+			note,
+			cents: cents === null ? null : Math.round(cents),
+			timing,
+			pitchScore: cents === null ? 0 : this.toScore(Math.abs(cents) / pitchTolerance),
+			timingScore: timing === null ? 0 : this.toScore(Math.abs(timing) / timingTolerance)
+		};
+	}
+
+	/**
+	 * 100 for a perfect note, falling linearly to 0 at the tolerance
+	 */
+	private toScore(error: number): number {
+		return Math.round(Math.max(0, 1 - error) * 100);
+	}
+
+	private median(values: number[]): number {
+		const sorted = [...values].sort((a, b) => a - b);
+		const middle = Math.floor(sorted.length / 2);
+		return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+	}
+}
@@ -0,0 +1,65 @@
+import {
+	DEFAULT_DETECTION_PROFILE,
+	DETECTION_PROFILES,
+	getDetectionProfile,
+	normalizeDetectionSettings,
+	type DetectionProfileId,
+	type DetectionSettings
+} from '$lib/pitch/DetectionProfile';
+import { PITCH_ALGORITHMS } from '$lib/pitch/PitchAlgorithm';
+
+const STORAGE_KEY = 'hum-to-notes:detection';
+
+export interface DetectionPreferences {
+	profile: DetectionProfileId | 'custom'; // 'custom' once any value is changed by hand
+	settings: DetectionSettings;
+}
+
+/**
+ * The chosen detection profile and settings, kept in localStorage so they
+ * survive reloads. Anything missing or unreadable falls back to the default profile.
+ */
+export function loadDetectionPreferences(): DetectionPreferences {
+	const fallback: DetectionPreferences = {
+		profile: DEFAULT_DETECTION_PROFILE,
+		settings: { ...getDetectionProfile(DEFAULT_DETECTION_PROFILE).settings }
+	};
+
+	let stored: unknown;
+	try {
+		stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+	} catch {
+		return fallback;
+	}
+	if (typeof stored !== 'object' || stored === null) return fallback;
+
+	const { profile, settings } = stored as Partial<Record<keyof DetectionPreferences, unknown>>;
+	const isProfile = profile === 'custom' || DETECTION_PROFILES.some((p) => p.id === profile);
+	if (!isProfile) return fallback;
+
+	// Start from the profile so settings added since the last save get its values
+	const base = getDetectionProfile(profile === 'custom' ? DEFAULT_DETECTION_PROFILE : (profile as DetectionProfileId));
+	const merged: DetectionSettings = { ...base.settings };
+	if (typeof settings === 'object' && settings !== null) {
+		for (const [key, value] of Object.entries(settings)) {
+			if (!(key in merged)) continue;
+			if (key === 'algorithm') {
+				if (PITCH_ALGORITHMS.some((option) => option.value === value)) {
+					merged.algorithm = value as DetectionSettings['algorithm'];
+				}
+			} else if (typeof value === 'number') {
+				(merged as unknown as Record<string, number>)[key] = value;
+			}
+		}
+	}
+
+	return { profile: profile as DetectionPreferences['profile'], settings: normalizeDetectionSettings(merged) };
+}
+
+export function saveDetectionPreferences(preferences: DetectionPreferences): void {
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+	} catch {
+		// Storage full or disabled: the choice just won't outlive the page
+	}
+}
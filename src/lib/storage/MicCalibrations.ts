@@ -0,0 +1,62 @@
+import type { Calibration } from '$lib/types';
+
+const STORAGE_KEY = 'hum-to-notes:calibrations';
+
+/**
+ * Calibrations by microphone, kept in localStorage
+ */
+export function loadCalibrations(): Record<string, Calibration> {
+	try {
+		const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+		if (typeof stored !== 'object' || stored === null) return {};
+		return Object.fromEntries(
+			Object.entries(stored).filter(([, calibration]) => isCalibration(calibration))
+		) as Record<string, Calibration>;
+	} catch {
+		return {};
+	}
+}
+
+export function saveCalibration(calibration: Calibration): void {
+	writeCalibrations({ ...loadCalibrations(), [calibration.deviceId]: calibration });
+}
+
+export function deleteCalibration(deviceId: string): void {
+	const { [deviceId]: _, ...rest } = loadCalibrations();
+	writeCalibrations(rest);
+}
+
+/**
+ * The most recently measured microphone, the best guess before one is opened
+ */
+export function latestCalibration(): Calibration | null {
+	const calibrations = Object.values(loadCalibrations());
+	return calibrations.sort((a, b) => b.calibratedAt - a.calibratedAt)[0] ?? null;
+}
+
+function writeCalibrations(calibrations: Record<string, Calibration>): void {
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(calibrations));
+	} catch {
+		// Storage full or disabled: the calibration just won't outlive the page
+	}
+}
+
+function isCalibration(value: unknown): value is Calibration {
+	if (typeof value !== 'object' || value === null) return false;
+	const calibration = value as Record<string, unknown>;
+	const numbers = [
+		'noiseLevel',
+		'lowFrequency',
+		'highFrequency',
+		'minLevel',
+		'minFrequency',
+		'maxFrequency',
+		'calibratedAt'
+	];
+	return (
+		typeof calibration.deviceId === 'string' &&
+		typeof calibration.deviceLabel === 'string' &&
+		numbers.every((key) => typeof calibration[key] === 'number' && Number.isFinite(calibration[key]))
+	);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { parseProject, serializeProject, type ProjectData } from '$lib/storage/ProjectFile';
+import { midiToPitch } from '$lib/notation/NotePitch';
+import type { MidiSettings } from '$lib/notation/MidiWriter';
+
+const PROJECT: ProjectData = {
+	name: 'Humming',
+	createdAt: Date.parse('2026-01-02T03:04:05.000Z'),
+	updatedAt: Date.parse('2026-01-03T03:04:05.000Z'),
+	rawNotes: [
+		{ ...midiToPitch(60), startTime: 0.31, duration: 0.48 },
+		{ ...midiToPitch(64), startTime: 0.82, duration: 0.5 }
+	],
+	detectedNotes: [
+		{ ...midiToPitch(60), startTime: 0, duration: 0.5 },
+		{ ...midiToPitch(64), startTime: 0.5, duration: 0.5 }
+	],
+	settings: {
+		bpm: 120,
+		quantizeEnabled: true,
+		followTempo: true,
+		subdivision: 12,
+		swingAmount: 0.25,
+		tempoChanges: [
+			{ beat: 0, bpm: 120 },
+			{ beat: 7, bpm: 126 }
+		],
+		detectedKey: { tonic: 3, mode: 'minor' },
+		keyOverride: null,
+		detectedTimeSignature: { beats: 7, beatType: 8 },
+		timeSignatureOverride: { beats: 3, beatType: 4 }
+	},
+	abcNotation: 'X:1\nK:C\nCE|\n'
+};
+const MIDI: MidiSettings = { format: 1, ticksPerQuarter: 480, program: 73, velocity: 90 };
+
+// A serialized project with one field replaced
+function withField(path: string, value: unknown): string {
+	const file = JSON.parse(serializeProject(PROJECT, MIDI));
+	const keys = path.split('.');
+	const parent = keys.slice(0, -1).reduce((object, key) => object[key], file);
+	parent[keys[keys.length - 1]] = value;
+	return JSON.stringify(file);
+}
+
+describe('project files', () => {
+	it('read back what was written', () => {
+		expect(parseProject(serializeProject(PROJECT, MIDI))).toEqual({ project: PROJECT, midi: MIDI });
+	});
+
+	it('reject files that are not projects', () => {
+		expect(() => parseProject('{')).toThrow('not valid JSON');
+		expect(() => parseProject('{"format":"other"}')).toThrow('not a Melody to Notation project');
+		expect(() => parseProject(withField('version', 2))).toThrow('newer version');
+	});
+
+	it.each([
+		['generators.midi.program', 128],
+		['generators.midi.program', 1.5],
+		['generators.midi.velocity', 200],
+		['generators.midi.ticksPerQuarter', 0],
+		['generators.midi.ticksPerQuarter', 40000],
+		['generators.midi.format', 2],
+		['quantization.subdivision', 6],
+		['quantization.swingAmount', 0.6],
+		['quantization.bpm', 0],
+		['quantization.bpm', 20],
+		['quantization.bpm', 400],
+		['notation.detectedTimeSignature.beatType', 6],
+		['notation.timeSignatureOverride.beats', 0],
+		['notation.detectedKey.tonic', 12],
+		['notes.raw', {}]
+	])('reject %s = %j', (path, value) => {
+		expect(() => parseProject(withField(path, value))).toThrow(`Invalid project file: ${path} must be`);
+	});
+});
@@ -0,0 +1,277 @@
+import type { DetectedNote, KeySignature, Project, TakeSettings, TempoChange, TimeSignature } from '$lib/types';
+import type { MidiSettings } from '$lib/notation/MidiWriter';
+import { MAX_BPM, MIN_BPM, SUBDIVISIONS } from '$lib/notation/TempoQuantizer';
+
+/**
+ * Versioned JSON form of a take, for sharing and checking into repos.
+ *
+ * Version 1:
+ * {
+ *   "format": "hum-to-notes-project",
+ *   "version": 1,
+ *   "metadata": { "name", "createdAt", "updatedAt" },        // ISO 8601 dates
+ *   "notes": { "raw": DetectedNote[], "quantized": DetectedNote[] },
+ *   "quantization": { "enabled", "bpm", "subdivision", "swingAmount", "followTempo", "tempoChanges" },
+ *   "notation": { "detectedKey", "keyOverride", "detectedTimeSignature", "timeSignatureOverride" },
+ *   "generators": { "abc": { "notation" }, "midi": MidiSettings }
+ * }
+ *
+ * The meter decides the bar length used for tempo following, so it is not
+ * stored with the quantization settings.
+ */
+
+export const PROJECT_FORMAT = 'hum-to-notes-project';
+export const PROJECT_VERSION = 1;
+
+// The pitch track and audio offset belong to the audio, which project files don't carry either
+export type ProjectData = Omit<Project, 'id' | 'hasAudio' | 'pitchTrack' | 'audioOffset'>;
+
+export interface ProjectFileContents {
+	project: ProjectData;
+	midi: MidiSettings;
+}
+
+// Upgrades from each version to the next. When the schema changes, bump
+// PROJECT_VERSION and add a step here, e.g. 1: (file) => ({ ...file, version: 2, ... })
+const MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export function serializeProject(project: ProjectData, midi: MidiSettings): string {
+	const settings = project.settings;
+	const file = {
+		format: PROJECT_FORMAT,
+		version: PROJECT_VERSION,
+		metadata: {
+			name: project.name,
+			createdAt: new Date(project.createdAt).toISOString(),
+			updatedAt: new Date(project.updatedAt).toISOString()
+		},
+		notes: {
+			raw: project.rawNotes,
+			quantized: project.detectedNotes
+		},
+		quantization: {
+			enabled: settings.quantizeEnabled,
+			bpm: settings.bpm,
+			subdivision: settings.subdivision,
+			swingAmount: settings.swingAmount,
+			followTempo: settings.followTempo,
+			tempoChanges: settings.tempoChanges
+		},
+		notation: {
+			detectedKey: settings.detectedKey,
+			keyOverride: settings.keyOverride,
+			detectedTimeSignature: settings.detectedTimeSignature,
+			timeSignatureOverride: settings.timeSignatureOverride
+		},
+		generators: {
+			abc: { notation: project.abcNotation },
+			midi
+		}
+	};
+	return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+/**
+ * Read a project file, upgrading older versions. Throws an Error naming
+ * the first field that is missing or malformed.
+ */
+export function parseProject(text: string): ProjectFileContents {
+	let json: unknown;
+	try {
+		json = JSON.parse(text);
+	} catch {
+		throw new Error('This file is not valid JSON, so it cannot be a project file.');
+	}
+
+	const file = migrate(readObject(json, 'file'));
+	const metadata = readObject(file.metadata, 'metadata');
+	const notes = readObject(file.notes, 'notes');
+	const quantization = readObject(file.quantization, 'quantization');
+	const notation = readObject(file.notation, 'notation');
+	const generators = readObject(file.generators, 'generators');
+	const abc = readObject(generators.abc, 'generators.abc');
+	const midi = readObject(generators.midi, 'generators.midi');
+
+	const settings: TakeSettings = {
+		quantizeEnabled: readBoolean(quantization.enabled, 'quantization.enabled'),
+		bpm: readNumber(quantization.bpm, 'quantization.bpm', MIN_BPM, MAX_BPM),
+		subdivision: readSubdivision(quantization.subdivision, 'quantization.subdivision'),
+		swingAmount: readNumber(quantization.swingAmount, 'quantization.swingAmount', 0, 0.5),
+		followTempo: readBoolean(quantization.followTempo, 'quantization.followTempo'),
+		tempoChanges: readArray(quantization.tempoChanges, 'quantization.tempoChanges', readTempoChange),
+		detectedKey: readKey(notation.detectedKey, 'notation.detectedKey'),
+		keyOverride: readNullable(notation.keyOverride, 'notation.keyOverride', readKey),
+		detectedTimeSignature: readTimeSignature(notation.detectedTimeSignature, 'notation.detectedTimeSignature'),
+		timeSignatureOverride: readNullable(
+			notation.timeSignatureOverride,
+			'notation.timeSignatureOverride',
+			readTimeSignature
+		)
+	};
+
+	const format = readNumber(midi.format, 'generators.midi.format', 0);
+	if (format !== 0 && format !== 1) {
+		throw new Error('Invalid project file: generators.midi.format must be 0 or 1.');
+	}
+
+	return {
+		project: {
+			name: readString(metadata.name, 'metadata.name'),
+			createdAt: readDate(metadata.createdAt, 'metadata.createdAt'),
+			updatedAt: readDate(metadata.updatedAt, 'metadata.updatedAt'),
+			rawNotes: readArray(notes.raw, 'notes.raw', readNote),
+			detectedNotes: readArray(notes.quantized, 'notes.quantized', readNote),
+			settings,
+			abcNotation: readString(abc.notation, 'generators.abc.notation')
+		},
+		midi: {
+			format,
+			// Written as MIDI data: a 15-bit division and 7-bit data bytes
+			ticksPerQuarter: readInteger(midi.ticksPerQuarter, 'generators.midi.ticksPerQuarter', 1, 32767),
+			program: readInteger(midi.program, 'generators.midi.program', 0, 127),
+			velocity: readInteger(midi.velocity, 'generators.midi.velocity', 0, 127)
+		}
+	};
+}
+
+/**
+ * Check the format marker and bring an older file up to the current version
+ */
+function migrate(file: Record<string, unknown>): Record<string, unknown> {
+	if (file.format !== PROJECT_FORMAT) {
+		throw new Error('This JSON file is not a Melody to Notation project.');
+	}
+
+	let version = readNumber(file.version, 'version', 1);
+	if (version > PROJECT_VERSION) {
+		throw new Error(
+			`This project was saved by a newer version of the app (format version ${version}). Please update to open it.`
+		);
+	}
+
+	while (version < PROJECT_VERSION) {
+		const upgrade = MIGRATIONS[version];
+		if (!upgrade) {
+			throw new Error(`Project format version ${version} is no longer supported.`);
+		}
+		file = upgrade(file);
+		version = readNumber(file.version, 'version', 1);
+	}
+
+	return file;
+}
+
+function invalid(path: string, expected: string): Error {
+	return new Error(`Invalid project file: ${path} must be ${expected}.`);
+}
+
+function readObject(value: unknown, path: string): Record<string, unknown> {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		throw invalid(path, 'an object');
+	}
+	return value as Record<string, unknown>;
+}
+
+function readNumber(value: unknown, path: string, min = -Infinity, max = Infinity): number {
+	if (typeof value !== 'number' || !Number.isFinite(value)) {
+		throw invalid(path, 'a number');
+	}
+	if (value < min) {
+		throw invalid(path, `at least ${min}`);
+	}
+	if (value > max) {
+		throw invalid(path, `at most ${max}`);
+	}
+	return value;
+}
+
+function readInteger(value: unknown, path: string, min: number, max: number): number {
+	const number = readNumber(value, path);
+	if (!Number.isInteger(number) || number < min || number > max) {
+		throw invalid(path, `a whole number from ${min} to ${max}`);
+	}
+	return number;
+}
+
+function readString(value: unknown, path: string): string {
+	if (typeof value !== 'string') {
+		throw invalid(path, 'a string');
+	}
+	return value;
+}
+
+function readBoolean(value: unknown, path: string): boolean {
+	if (typeof value !== 'boolean') {
+		throw invalid(path, 'true or false');
+	}
+	return value;
+}
+
+function readDate(value: unknown, path: string): number {
+	const time = Date.parse(readString(value, path));
+	if (Number.isNaN(time)) {
+		throw invalid(path, 'an ISO 8601 date');
+	}
+	return time;
+}
+
+function readArray<T>(value: unknown, path: string, readItem: (item: unknown, path: string) => T): T[] {
+	if (!Array.isArray(value)) {
+		throw invalid(path, 'an array');
+	}
+	return value.map((item, i) => readItem(item, `${path}[${i}]`));
+}
+
+function readNullable<T>(value: unknown, path: string, read: (value: unknown, path: string) => T): T | null {
+	return value === null ? null : read(value, path);
+}
+
+function readNote(value: unknown, path: string): DetectedNote {
+	const note = readObject(value, path);
+	return {
+		note: readString(note.note, `${path}.note`),
+		octave: readInteger(note.octave, `${path}.octave`, -1, 9),
+		midiNumber: readInteger(note.midiNumber, `${path}.midiNumber`, 0, 127),
+		startTime: readNumber(note.startTime, `${path}.startTime`, 0),
+		duration: readNumber(note.duration, `${path}.duration`, 0),
+		frequency: readNumber(note.frequency, `${path}.frequency`, 0)
+	};
+}
+
+function readTempoChange(value: unknown, path: string): TempoChange {
+	const change = readObject(value, path);
+	return {
+		beat: readNumber(change.beat, `${path}.beat`, 0),
+		bpm: readNumber(change.bpm, `${path}.bpm`, MIN_BPM, MAX_BPM)
+	};
+}
+
+function readKey(value: unknown, path: string): KeySignature {
+	const key = readObject(value, path);
+	if (key.mode !== 'major' && key.mode !== 'minor') {
+		throw invalid(`${path}.mode`, '"major" or "minor"');
+	}
+	return {
+		tonic: readInteger(key.tonic, `${path}.tonic`, 0, 11),
+		mode: key.mode
+	};
+}
+
+function readSubdivision(value: unknown, path: string): number {
+	const subdivision = readNumber(value, path);
+	if (!SUBDIVISIONS.some((option) => option.value === subdivision)) {
+		throw invalid(path, `one of ${SUBDIVISIONS.map((option) => option.value).join(', ')}`);
+	}
+	return subdivision;
+}
+
+function readTimeSignature(value: unknown, path: string): TimeSignature {
+	const meter = readObject(value, path);
+	const beats = readInteger(meter.beats, `${path}.beats`, 1, 32);
+	const beatType = readInteger(meter.beatType, `${path}.beatType`, 1, 64);
+	// MIDI stores the beat type as a power of two
+	if ((beatType & (beatType - 1)) !== 0) {
+		throw invalid(`${path}.beatType`, 'a power of two');
+	}
+	return { beats, beatType };
+}
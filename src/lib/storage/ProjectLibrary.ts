@@ -0,0 +1,116 @@
+import type { Project, TakeAudio } from '$lib/types';
+
+const DB_NAME = 'hum-to-notes';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+// Audio lives in its own store so listing and autosaving never touch it
+const AUDIO_STORE = 'audio';
+
+interface StoredAudio extends TakeAudio {
+	id: string; // project id
+}
+
+/**
+ * Saved takes in the browser's IndexedDB
+ */
+export class ProjectLibrary {
+	private db: Promise<IDBDatabase> | null = null;
+
+	/**
+	 * All projects, most recently changed first
+	 */
+	async list(): Promise<Project[]> {
+		const projects = await this.request<Project[]>(PROJECTS_STORE, 'readonly', (store) => store.getAll());
+		return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+	}
+
+	async get(id: string): Promise<Project | null> {
+		const project = await this.request<Project | undefined>(PROJECTS_STORE, 'readonly', (store) => store.get(id));
+		return project ?? null;
+	}
+
+	async save(project: Project): Promise<void> {
+		await this.request(PROJECTS_STORE, 'readwrite', (store) => store.put(project));
+	}
+
+	async getAudio(id: string): Promise<TakeAudio | null> {
+		const audio = await this.request<StoredAudio | undefined>(AUDIO_STORE, 'readonly', (store) => store.get(id));
+		return audio ? { samples: audio.samples, sampleRate: audio.sampleRate } : null;
+	}
+
+	async saveAudio(id: string, audio: TakeAudio): Promise<void> {
+		const stored: StoredAudio = { id, samples: audio.samples, sampleRate: audio.sampleRate };
+		await this.request(AUDIO_STORE, 'readwrite', (store) => store.put(stored));
+	}
+
+	async rename(id: string, name: string): Promise<void> {
+		const project = await this.get(id);
+		if (!project) return;
+		await this.save({ ...project, name, updatedAt: Date.now() });
+	}
+
+	/**
+	 * Copy a project and its audio under a new id
+	 */
+	async duplicate(id: string): Promise<Project | null> {
+		const project = await this.get(id);
+		if (!project) return null;
+
+		const now = Date.now();
+		const copy: Project = {
+			...project,
+			id: ProjectLibrary.createId(),
+			name: `${project.name} (copy)`,
+			createdAt: now,
+			updatedAt: now
+		};
+		await this.save(copy);
+
+		const audio = project.hasAudio ? await this.getAudio(id) : null;
+		if (audio) {
+			await this.saveAudio(copy.id, audio);
+		}
+		return copy;
+	}
+
+	async delete(id: string): Promise<void> {
+		await this.request(PROJECTS_STORE, 'readwrite', (store) => store.delete(id));
+		await this.request(AUDIO_STORE, 'readwrite', (store) => store.delete(id));
+	}
+
+	static createId(): string {
+		return crypto.randomUUID();
+	}
+
+	private open(): Promise<IDBDatabase> {
+		this.db ??= new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+					db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+				}
+				if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+					db.createObjectStore(AUDIO_STORE, { keyPath: 'id' });
+				}
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(new Error('Could not open the project library.'));
+		});
+		return this.db;
+	}
+
+	private async request<T>(
+		storeName: string,
+		mode: IDBTransactionMode,
+		operation: (store: IDBObjectStore) => IDBRequest
+	): Promise<T> {
+		const db = await this.open();
+		return new Promise((resolve, reject) => {
+			const transaction = db.transaction(storeName, mode);
+			const request = operation(transaction.objectStore(storeName));
+			transaction.oncomplete = () => resolve(request.result as T);
+			transaction.onerror = () => reject(transaction.error ?? new Error('Project library request failed.'));
+		});
+	}
+}
@@ -0,0 +1,68 @@
+interface Entry<T> {
+	label: string; // what the change did, e.g. 'Change tempo'
+	snapshot: T; // state on the other side of the change
+	coalesceKey: string | null;
+	time: number; // ms, when the change last happened
+}
+
+// Repeated changes with the same key closer together than this share one entry
+const COALESCE_WINDOW = 1000;
+const MAX_ENTRIES = 100;
+
+/**
+ * Undo and redo stacks of state snapshots. Undo entries hold the state from
+ * before each change, redo entries the state from before each undo.
+ */
+export class EditHistory<T> {
+	private undoStack: Entry<T>[] = [];
+	private redoStack: Entry<T>[] = [];
+
+	/**
+	 * Remember the state from before a change. A burst of changes with the
+	 * same coalesce key (like clicking +5 BPM several times) undoes in one step.
+	 */
+	record(label: string, before: T, coalesceKey: string | null = null, now = Date.now()): void {
+		this.redoStack = [];
+
+		const last = this.undoStack[this.undoStack.length - 1];
+		if (coalesceKey !== null && last?.coalesceKey === coalesceKey && now - last.time < COALESCE_WINDOW) {
+			last.time = now;
+			return;
+		}
+
+		this.undoStack.push({ label, snapshot: before, coalesceKey, time: now });
+		if (this.undoStack.length > MAX_ENTRIES) {
+			this.undoStack.shift();
+		}
+	}
+
+	/**
+	 * Step back, returning the state to restore, or null if there is nothing to undo
+	 */
+	undo(current: T): T | null {
+		const entry = this.undoStack.pop();
+		if (!entry) return null;
+
+		this.redoStack.push({ ...entry, snapshot: current, coalesceKey: null });
+		return entry.snapshot;
+	}
+
+	/**
+	 * Step forward again, returning the state to restore, or null if there is nothing to redo
+	 */
+	redo(current: T): T | null {
+		const entry = this.redoStack.pop();
+		if (!entry) return null;
+
+		this.undoStack.push({ ...entry, snapshot: current, coalesceKey: null });
+		return entry.snapshot;
+	}
+
+	getUndoLabel(): string | null {
+		return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+	}
+
+	getRedoLabel(): string | null {
+		return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+	}
+}
@@ -1,42 +1,228 @@
 import { AudioRecorder } from '$lib/audio/AudioRecorder';
-import { PitchDetector } from '$lib/pitch/PitchDetector';
-import { NoteQuantizer } from '$lib/pitch/NoteQuantizer';
+import { AudioFileDecoder } from '$lib/audio/AudioFileDecoder';
+import { encodeWav } from '$lib/audio/WavFile';
+import type { PlaybackSource } from '$lib/audio/TakePlayer';
+import type { AnalysisSettings } from '$lib/pitch/FrameAnalyzer';
+import { WorkerAnalyzer, type FramesListener } from '$lib/pitch/WorkerAnalyzer';
+import { OfflineAnalyzer } from '$lib/pitch/OfflineAnalyzer';
+import { MicCalibrator, type CalibrationReading, type CalibrationStep } from '$lib/pitch/MicCalibrator';
+import {
+	DEFAULT_DETECTION_PROFILE,
+	getDetectionProfile,
+	normalizeDetectionSettings,
+	type DetectionProfileId,
+	type DetectionSettings
+} from '$lib/pitch/DetectionProfile';
+import { TimeWarp } from '$lib/pitch/TimeWarp';
 import { AbcGenerator } from '$lib/notation/AbcGenerator';
-import { TempoQuantizer } from '$lib/notation/TempoQuantizer';
-import type { PitchData, DetectedNote, RecordingStatus } from '$lib/types';
+import { TempoQuantizer, SUBDIVISIONS, isTripletSubdivision } from '$lib/notation/TempoQuantizer';
+import { MidiWriter } from '$lib/notation/MidiWriter';
+import { MusicXmlGenerator } from '$lib/notation/MusicXmlGenerator';
+import { KeyDetector } from '$lib/notation/KeyDetector';
+import { MeterDetector } from '$lib/notation/MeterDetector';
+import { TempoMap } from '$lib/notation/TempoMap';
+import {
+	TakeTranscriber,
+	normalizeNoteTimes,
+	takeTempoMap,
+	writeAbc,
+	writeMidi,
+	writeMusicXml,
+	type ScoreContext,
+	type TakeOptions
+} from '$lib/notation/TakeTranscriber';
+import { NoteEditor } from '$lib/notation/NoteEditor';
+import { AbcParser } from '$lib/notation/AbcParser';
+import { MidiReader } from '$lib/notation/MidiReader';
+import { EditHistory } from '$lib/stores/EditHistory';
+import { ProjectLibrary } from '$lib/storage/ProjectLibrary';
+import { parseProject, serializeProject } from '$lib/storage/ProjectFile';
+import { loadDetectionPreferences, saveDetectionPreferences } from '$lib/storage/DetectionPreferences';
+import { deleteCalibration, latestCalibration, loadCalibrations, saveCalibration } from '$lib/storage/MicCalibrations';
+import { PracticeScorer, type PracticeResult } from '$lib/practice/PracticeScorer';
+import type {
+	PitchData,
+	DetectedNote,
+	RecordingStatus,
+	KeySignature,
+	TimeSignature,
+	TempoChange,
+	TakeAudio,
+	TakeSettings,
+	Project,
+	ImportedScore,
+	Calibration
+} from '$lib/types';
+
+// Everything an undo step restores
+interface EditSnapshot {
+	status: RecordingStatus;
+	projectId: string | null;
+	rawNotes: DetectedNote[];
+	detectedNotes: DetectedNote[];
+	pitchTrack: PitchData[];
+	settings: TakeSettings;
+	audio: TakeAudio | null;
+	audioOffset: number;
+}
+
+// Wait this long after the last change before writing the project to the library
+const AUTOSAVE_DELAY = 1000; // ms
+
+// Practice stops by itself this long after the last reference note
+const PRACTICE_TAIL = 1; // seconds
+// Length of each calibration step
+const CALIBRATION_STEP_SECONDS = 3;
 
 class AudioState {
 	status = $state<RecordingStatus>('idle');
 	currentPitch = $state<PitchData | null>(null);
 	detectedNotes = $state<DetectedNote[]>([]);
 	rawNotes = $state<DetectedNote[]>([]); // Unquantized notes
+	pitchTrack = $state.raw<PitchData[]>([]); // Every analysis frame of the take, on the raw notes' timeline
 	abcNotation = $state<string>('');
 	error = $state<string | null>(null);
 	detectedBpm = $state<number>(120);
 	quantizeEnabled = $state<boolean>(false);
+	followTempo = $state<boolean>(true); // Let the quantize grid drift with the singer
+	subdivision = $state<number>(8); // Quantize grid, see TempoQuantizer.SUBDIVISIONS
+	swingAmount = $state<number>(0); // 0 = straight, 0.5 = full swing
+	tempoChanges = $state<TempoChange[]>([]); // Tempo map of the quantized notes
+	detectedKey = $state<KeySignature>({ tonic: 0, mode: 'major' });
+	keyOverride = $state<KeySignature | null>(null); // User-chosen key, null = auto
+	detectedTimeSignature = $state<TimeSignature>({ beats: 4, beatType: 4 });
+	timeSignatureOverride = $state<TimeSignature | null>(null); // User-chosen meter, null = auto
+	importProgress = $state(0); // 0-1 while analyzing an imported file
+
+	// Labels of the next undo and redo steps, null when there are none
+	undoLabel = $state<string | null>(null);
+	redoLabel = $state<string | null>(null);
+
+	// Project library: every take is saved and kept up to date as it is edited
+	projects = $state<Project[]>([]);
+	projectId = $state<string | null>(null); // Library entry of the current take
+	keepAudio = $state(true); // Store the original audio with new takes
 
 	// Playback state
 	isPlaying = $state(false);
 	playbackPosition = $state(0); // in seconds
+	playbackSource = $state<PlaybackSource>('melody'); // melody, original recording, or both
+
+	// Sing-along practice against the current take
+	isPracticing = $state(false);
+	practicePosition = $state(0); // seconds on the take's timeline, negative during the count-in
+	practiceResult = $state.raw<PracticeResult | null>(null);
+
+	// Window and hop used for both live and file analysis
+	analysisSettings: Partial<AnalysisSettings> = {};
+
+	// Detector and quantizer tuning, from a named profile or adjusted by hand
+	detectionProfile = $state<DetectionProfileId | 'custom'>(DEFAULT_DETECTION_PROFILE);
+	detectionSettings = $state<DetectionSettings>({ ...getDetectionProfile(DEFAULT_DETECTION_PROFILE).settings });
+
+	// Microphone calibration: noise gate and pitch range for the input in use
+	calibration = $state.raw<Calibration | null>(null);
+	calibrationStep = $state<CalibrationStep | null>(null); // step running or waiting to run
+	isCalibrationListening = $state(false);
+	calibrationProgress = $state(0); // 0-1 through the running step
+	calibrationReading = $state.raw<CalibrationReading | null>(null);
+	calibrationError = $state<string | null>(null);
 
 	private recorder: AudioRecorder | null = null;
-	private pitchDetector: PitchDetector | null = null;
-	private noteQuantizer: NoteQuantizer | null = null;
+	private analyzer: WorkerAnalyzer | null = null;
 	private abcGenerator: AbcGenerator;
 	private tempoQuantizer: TempoQuantizer;
-	private animationFrameId: number | null = null;
-	private recordingStartTime: number = 0;
+	private midiWriter: MidiWriter;
+	private musicXmlGenerator: MusicXmlGenerator;
+	private keyDetector: KeyDetector;
+	private meterDetector: MeterDetector;
+	private takeTranscriber: TakeTranscriber;
+	private noteEditor = new NoteEditor();
+	private history = new EditHistory<EditSnapshot>();
+	private library = new ProjectLibrary();
+	private takeAudio = $state.raw<TakeAudio | null>(null); // Original audio of the current take
+	private audioOffset = 0; // seconds into the take's audio where the raw notes' timeline starts
+	private recordedChunks: Float32Array[] = [];
+	private recordedPitch: PitchData[] = [];
+	private autosaveTimer: ReturnType<typeof setTimeout> | null = null;
 	private playbackAnimationId: number | null = null;
 	private playbackStartTime: number = 0;
-	private playbackScaleFactor: number = 1;
+	private practiceScorer = new PracticeScorer();
+	private practiceReference: DetectedNote[] = [];
+	private practiceLeadIn = 0; // seconds of count-in before the take's time 0
+	// Sung pitch is appended in place, many times a second; the count tells the view it grew
+	private practiceBuffer: PitchData[] = [];
+	private practiceFrameCount = $state(0);
+	private calibrator: MicCalibrator | null = null;
+	private calibrationHeard = 0; // samples heard in the running step
 
 	constructor() {
 		this.abcGenerator = new AbcGenerator();
 		this.tempoQuantizer = new TempoQuantizer();
+		this.midiWriter = new MidiWriter();
+		this.musicXmlGenerator = new MusicXmlGenerator();
+		this.keyDetector = new KeyDetector();
+		this.meterDetector = new MeterDetector();
+		this.takeTranscriber = new TakeTranscriber(this.tempoQuantizer);
+
+		const preferences = loadDetectionPreferences();
+		this.detectionProfile = preferences.profile;
+		this.detectionSettings = preferences.settings;
+		this.calibration = latestCalibration();
+	}
+
+	/**
+	 * Key used for notation: the user's choice, or the detected key
+	 */
+	get key(): KeySignature {
+		return this.keyOverride ?? this.detectedKey;
+	}
+
+	/**
+	 * Meter used for notation: the user's choice, or the detected meter
+	 */
+	get timeSignature(): TimeSignature {
+		return this.timeSignatureOverride ?? this.detectedTimeSignature;
+	}
+
+	/**
+	 * Whether notes sit on a triplet grid and should be written as tuplets
+	 */
+	private get triplets(): boolean {
+		return this.quantizeEnabled && isTripletSubdivision(this.subdivision);
+	}
+
+	/**
+	 * Tempo of the notes on screen: the tracked tempo map when quantized,
+	 * otherwise one fixed BPM
+	 */
+	get tempoMap(): TempoMap {
+		return takeTempoMap(this.quantizeEnabled, this.tempoChanges, this.detectedBpm);
+	}
+
+	/**
+	 * What the notation and exports are written with
+	 */
+	private get scoreContext(): ScoreContext {
+		return { tempoMap: this.tempoMap, triplets: this.triplets, key: this.key, timeSignature: this.timeSignature };
+	}
+
+	/**
+	 * The take's pitch track moved onto the timeline of the notes on screen
+	 */
+	get pitchContour(): PitchData[] {
+		const warp = new TimeWarp(this.rawNotes, this.detectedNotes);
+		return this.pitchTrack.map((frame) => ({ ...frame, timestamp: warp.map(frame.timestamp) }));
 	}
 
 	async startRecording(): Promise<void> {
 		if (this.status === 'recording') return;
+		this.stopPractice();
+		this.cancelCalibration();
+
+		if (this.status === 'complete') {
+			this.recordHistory('New recording');
+		}
 
 		try {
 			this.error = null;
@@ -44,17 +230,20 @@ class AudioState {
 			this.rawNotes = [];
 			this.abcNotation = '';
 			this.currentPitch = null;
+			this.projectId = null;
+			this.takeAudio = null;
+			this.audioOffset = 0;
+			this.pitchTrack = [];
+			this.recordedChunks = [];
+			this.recordedPitch = [];
 
+			this.stopAnalyzer();
 			this.recorder = new AudioRecorder();
-			await this.recorder.start();
-
-			this.pitchDetector = new PitchDetector(this.recorder.getSampleRate());
-			this.noteQuantizer = new NoteQuantizer();
-
+			await this.recorder.start((samples) => this.processAudio(samples));
+			this.useDeviceCalibration();
 			this.status = 'recording';
-			this.recordingStartTime = performance.now() / 1000;
-			this.processAudio();
 		} catch (err) {
+			this.recorder = null;
 			this.error = err instanceof Error ? err.message : 'Failed to start recording';
 			this.status = 'idle';
 		}
@@ -65,62 +254,283 @@ class AudioState {
 
 		this.status = 'processing';
 
-		if (this.animationFrameId !== null) {
-			cancelAnimationFrame(this.animationFrameId);
-			this.animationFrameId = null;
+		if (this.recorder) {
+			this.takeAudio = {
+				samples: this.concatChunks(this.recordedChunks),
+				sampleRate: this.recorder.getSampleRate()
+			};
 		}
+		this.recordedChunks = [];
+		this.recorder?.stop();
+		this.recorder = null;
+		this.currentPitch = null;
 
-		// Flush any remaining note
-		if (this.noteQuantizer) {
-			const currentTime = (performance.now() / 1000) - this.recordingStartTime;
-			const finalNote = this.noteQuantizer.flush(currentTime);
-			if (finalNote) {
-				this.rawNotes = [...this.rawNotes, finalNote];
-			}
+		void this.finishRecording(this.analyzer);
+	}
+
+	/**
+	 * Wait for the worker to catch up with the last samples, then build
+	 * the take. Does nothing if the take was reset meanwhile.
+	 */
+	private async finishRecording(analyzer: WorkerAnalyzer | null): Promise<void> {
+		const finalNote = analyzer ? await analyzer.flush() : null;
+		if (this.analyzer !== analyzer || this.status !== 'processing') return;
+		this.stopAnalyzer();
+
+		if (finalNote) {
+			this.rawNotes.push(finalNote);
 		}
+		this.pitchTrack = this.recordedPitch;
+		this.recordedPitch = [];
 
-		this.recorder?.stop();
-		this.recorder = null;
-		this.pitchDetector = null;
+		this.finishTake(`Recording ${new Date().toLocaleString()}`);
+	}
+
+	async importAudioFile(file: File): Promise<void> {
+		if (this.status === 'recording' || this.status === 'processing') return;
+
+		if (this.status === 'complete') {
+			this.recordHistory('Import audio');
+		}
+
+		this.stopPlayback();
+		this.error = null;
+		this.detectedNotes = [];
+		this.rawNotes = [];
+		this.abcNotation = '';
 		this.currentPitch = null;
+		this.importProgress = 0;
+		this.projectId = null;
+		this.takeAudio = null;
+		this.audioOffset = 0;
+		this.pitchTrack = [];
+		this.status = 'processing';
 
-		// Apply tempo quantization or normalize raw notes
-		if (this.quantizeEnabled && this.rawNotes.length > 0) {
-			this.detectedNotes = this.tempoQuantizer.quantize(this.rawNotes, true);
-			this.detectedBpm = this.tempoQuantizer.getBpm();
-		} else {
-			this.detectedNotes = this.normalizeNoteTimes(this.rawNotes);
+		try {
+			const decoder = new AudioFileDecoder();
+			const audio = await decoder.decode(file);
+
+			const analyzer = new OfflineAnalyzer(audio.sampleRate, this.getAnalysisSettings(false));
+			const analysis = await analyzer.analyze(audio.samples, (progress) => {
+				this.importProgress = progress;
+			});
+			this.rawNotes = analysis.notes;
+			this.pitchTrack = analysis.pitchTrack;
+			this.takeAudio = { samples: audio.samples, sampleRate: audio.sampleRate };
+
+			// Name the take after the file, without its extension
+			this.finishTake(file.name.replace(/\.[^.]+$/, '') || file.name);
+		} catch (err) {
+			this.error = err instanceof Error ? err.message : 'Failed to import audio file';
+			this.status = 'idle';
 		}
+	}
 
-		// Generate ABC notation with detected BPM
-		this.abcGenerator.setBpm(this.detectedBpm);
-		this.abcNotation = this.abcGenerator.generate(this.detectedNotes);
+	/**
+	 * Load the melody of an ABC or MIDI file as a take. The file's notes are
+	 * already on a grid, so they are used as they are rather than quantized.
+	 */
+	async importScoreFile(file: File): Promise<void> {
+		if (this.status === 'recording' || this.status === 'processing') return;
+
+		try {
+			const score: ImportedScore = /\.midi?$/i.test(file.name)
+				? new MidiReader().parse(new Uint8Array(await file.arrayBuffer()))
+				: new AbcParser().parse(await file.text());
+
+			if (this.status === 'complete') {
+				this.recordHistory('Import score');
+			}
+			this.stopPlayback();
+			this.error = null;
+			this.projectId = null;
+			this.takeAudio = null;
+			this.audioOffset = 0;
+			this.pitchTrack = [];
+			this.rawNotes = score.notes;
+			this.detectedNotes = score.notes;
+
+			const tempoMap = new TempoMap(score.tempoChanges);
+			this.tempoQuantizer.setBpm(tempoMap.getInitialBpm());
+			this.tempoQuantizer.setSubdivision(this.fitSubdivision(score.notes, tempoMap));
+			this.tempoQuantizer.setSwingAmount(0);
+			this.detectedBpm = tempoMap.getInitialBpm();
+			this.subdivision = this.tempoQuantizer.getSubdivision();
+			this.swingAmount = 0;
+			this.quantizeEnabled = true;
+			// Re-quantizing later should keep a changing tempo changing
+			this.followTempo = !tempoMap.isConstant();
+			this.tempoChanges = tempoMap.getChanges();
+
+			this.detectedKey = score.key ?? this.keyDetector.detect(score.notes);
+			this.keyOverride = null;
+			this.detectedTimeSignature = score.timeSignature ?? this.meterDetector.detect(score.notes, this.detectedBpm);
+			this.timeSignatureOverride = null;
+
+			this.updateNotation();
+			this.status = 'complete';
+			await this.createProject(score.title ?? (file.name.replace(/\.[^.]+$/, '') || file.name));
+		} catch (err) {
+			this.error = err instanceof Error ? err.message : 'Failed to import score';
+		}
+	}
+
+	/**
+	 * Coarsest grid every note start and end of a score falls on, so
+	 * re-quantizing it doesn't move anything
+	 */
+	private fitSubdivision(notes: DetectedNote[], tempoMap: TempoMap): number {
+		const beats = notes.flatMap((note) => [
+			tempoMap.secondsToBeats(note.startTime),
+			tempoMap.secondsToBeats(note.startTime + note.duration)
+		]);
+		const grids = SUBDIVISIONS.map(({ value }) => value).sort((a, b) => a - b);
+		const fits = grids.find((subdivision) =>
+			beats.every((beat) => {
+				const units = (beat * subdivision) / 4;
+				return Math.abs(units - Math.round(units)) < 1e-3;
+			})
+		);
+		return fits ?? 16;
+	}
+
+	private finishTake(name: string): void {
+		const take = this.takeTranscriber.transcribe(this.rawNotes, this.takeOptions, {
+			bpm: this.detectedBpm,
+			timeSignature: this.detectedTimeSignature
+		});
+		this.detectedKey = take.key;
+		this.detectedBpm = take.bpm;
+		this.detectedTimeSignature = take.timeSignature;
+		this.detectedNotes = take.notes;
+		this.tempoChanges = take.tempoChanges;
+		this.keyOverride = null;
+		this.timeSignatureOverride = null;
+
+		this.updateNotation();
 		this.status = 'complete';
+		this.createProject(name);
+	}
+
+	/**
+	 * Estimate the meter from the take's onsets on the current tempo grid
+	 */
+	private detectMeter(): void {
+		this.detectedTimeSignature =
+			this.takeTranscriber.detectMeter(this.rawNotes, this.detectedBpm) ?? this.detectedTimeSignature;
+	}
+
+	/**
+	 * Quantize the raw notes at the current BPM, following tempo drift
+	 * bar by bar when enabled
+	 */
+	private quantizeNotes(): void {
+		const layout = this.takeTranscriber.layOut(this.rawNotes, this.takeOptions, this.timeSignature);
+		this.detectedNotes = layout.notes;
+		this.tempoChanges = layout.tempoChanges;
+	}
+
+	// Quantize settings the take pipeline reads
+	private get takeOptions(): TakeOptions {
+		return { quantize: this.quantizeEnabled, followTempo: this.followTempo };
+	}
+
+	/**
+	 * Regenerate ABC notation from the current notes and settings
+	 */
+	private updateNotation(): void {
+		this.abcNotation = writeAbc(this.abcGenerator, this.detectedNotes, this.scoreContext);
+		this.scheduleAutosave();
 	}
 
-	private processAudio(): void {
-		if (this.status !== 'recording' || !this.recorder || !this.pitchDetector || !this.noteQuantizer) {
+	/**
+	 * Analysis settings with the current detection tuning. Microphone input
+	 * also takes the noise gate and pitch range from its calibration.
+	 */
+	private getAnalysisSettings(fromMicrophone: boolean): Partial<AnalysisSettings> {
+		const detection = $state.snapshot(this.detectionSettings);
+		if (fromMicrophone && this.calibration) {
+			const { minLevel, minFrequency, maxFrequency } = this.calibration;
+			Object.assign(detection, { minLevel, minFrequency, maxFrequency });
+		}
+		return { ...this.analysisSettings, detection };
+	}
+
+	private processAudio(samples: Float32Array): void {
+		if (this.status !== 'recording' || !this.recorder) {
 			return;
 		}
 
-		const audioData = this.recorder.getTimeDomainData();
-		if (audioData) {
-			const currentTime = (performance.now() / 1000) - this.recordingStartTime;
-			const pitchData = this.pitchDetector.detect(audioData, currentTime);
-			this.currentPitch = pitchData;
+		// Timestamps come from the analyzer's sample clock, not wall time
+		this.analyzer ??= this.startAnalyzer(this.recorder.getSampleRate(), (pitches, notes) => {
+			this.recordedPitch.push(...pitches);
+			if (notes.length > 0) {
+				this.rawNotes.push(...notes);
+			}
+			if (this.status === 'recording') {
+				this.currentPitch = pitches[pitches.length - 1];
+			}
+		});
 
-			const detectedNote = this.noteQuantizer.processFrame(pitchData);
-			if (detectedNote) {
-				this.rawNotes = [...this.rawNotes, detectedNote];
+		this.recordedChunks.push(samples);
+		this.analyzer.push(samples);
+	}
+
+	/**
+	 * Start a worker for the microphone's audio. Frames from a worker that has
+	 * since been stopped or replaced are dropped.
+	 */
+	private startAnalyzer(sampleRate: number, onFrames: FramesListener): WorkerAnalyzer {
+		const analyzer: WorkerAnalyzer = new WorkerAnalyzer(
+			sampleRate,
+			this.getAnalysisSettings(true),
+			(pitches, notes) => {
+				if (this.analyzer === analyzer) onFrames(pitches, notes);
+			},
+			(message) => {
+				if (this.analyzer === analyzer) this.failAnalysis(message);
 			}
+		);
+		return analyzer;
+	}
+
+	/**
+	 * The worker can't go on, so nothing more of the take or practice run
+	 * will be analyzed: stop listening and drop it
+	 */
+	private failAnalysis(message: string): void {
+		this.stopAnalyzer();
+		this.recorder?.stop();
+		this.recorder = null;
+		this.recordedChunks = [];
+		this.recordedPitch = [];
+		this.currentPitch = null;
+		this.isPracticing = false;
+		if (this.status === 'recording' || this.status === 'processing') {
+			this.takeAudio = null;
+			this.audioOffset = 0;
+			this.status = 'idle';
 		}
+		this.error = message;
+	}
 
-		this.animationFrameId = requestAnimationFrame(() => this.processAudio());
+	private stopAnalyzer(): void {
+		this.analyzer?.terminate();
+		this.analyzer = null;
 	}
 
 	reset(): void {
+		if (this.status === 'complete') {
+			this.recordHistory('Clear');
+		}
 		this.stopRecording();
+		this.stopPractice();
 		this.stopPlayback();
+		this.stopAnalyzer();
+		this.projectId = null;
+		this.takeAudio = null;
+		this.audioOffset = 0;
+		this.pitchTrack = [];
 		this.status = 'idle';
 		this.currentPitch = null;
 		this.detectedNotes = [];
@@ -129,53 +539,701 @@ class AudioState {
 		this.error = null;
 	}
 
+	/**
+	 * Switch to a named detection profile. Like any detection change, it
+	 * applies from the next recording, import or practice run.
+	 */
+	setDetectionProfile(id: DetectionProfileId): void {
+		this.detectionProfile = id;
+		this.detectionSettings = { ...getDetectionProfile(id).settings };
+		saveDetectionPreferences({ profile: id, settings: $state.snapshot(this.detectionSettings) });
+	}
+
+	/**
+	 * Adjust individual detection values, leaving the named profiles behind
+	 */
+	updateDetectionSettings(settings: Partial<DetectionSettings>): void {
+		this.detectionProfile = 'custom';
+		this.detectionSettings = normalizeDetectionSettings({ ...this.detectionSettings, ...settings });
+		saveDetectionPreferences({ profile: 'custom', settings: $state.snapshot(this.detectionSettings) });
+	}
+
 	setBpm(bpm: number): void {
-		this.detectedBpm = bpm;
+		this.recordHistory('Change tempo', 'bpm');
 		this.tempoQuantizer.setBpm(bpm);
+		this.detectedBpm = this.tempoQuantizer.getBpm();
+		this.detectMeter();
 
 		// Re-quantize if we have notes
 		if (this.rawNotes.length > 0 && this.quantizeEnabled) {
-			this.detectedNotes = this.tempoQuantizer.quantize(this.rawNotes, false);
-			this.abcGenerator.setBpm(this.detectedBpm);
-			this.abcNotation = this.abcGenerator.generate(this.detectedNotes);
+			this.quantizeNotes();
+		}
+		// Note lengths in the score depend on the tempo even when unquantized
+		if (this.detectedNotes.length > 0) {
+			this.updateNotation();
 		}
 	}
 
 	toggleQuantize(): void {
+		this.recordHistory('Toggle quantize');
 		this.quantizeEnabled = !this.quantizeEnabled;
 
 		if (this.rawNotes.length > 0) {
 			if (this.quantizeEnabled) {
-				this.detectedNotes = this.tempoQuantizer.quantize(this.rawNotes, false);
+				this.quantizeNotes();
 			} else {
-				this.detectedNotes = this.normalizeNoteTimes(this.rawNotes);
+				this.detectedNotes = normalizeNoteTimes(this.rawNotes);
 			}
-			this.abcGenerator.setBpm(this.detectedBpm);
-			this.abcNotation = this.abcGenerator.generate(this.detectedNotes);
+			this.updateNotation();
 		}
 	}
 
+	toggleFollowTempo(): void {
+		this.recordHistory('Toggle tempo following');
+		this.followTempo = !this.followTempo;
+		this.requantize();
+	}
+
 	/**
-	 * Normalize note start times so the first note starts at 0
+	 * Choose the quantize grid, in divisions of a whole note
 	 */
-	private normalizeNoteTimes(notes: DetectedNote[]): DetectedNote[] {
-		if (notes.length === 0) return [];
-		const firstStart = notes[0].startTime;
-		return notes.map(note => ({
-			...note,
-			startTime: note.startTime - firstStart
+	setSubdivision(subdivision: number): void {
+		this.recordHistory('Change grid');
+		this.subdivision = subdivision;
+		this.tempoQuantizer.setSubdivision(subdivision);
+		this.requantize();
+	}
+
+	/**
+	 * Set how far offbeats are played late, 0 (straight) to 0.5 (full swing)
+	 */
+	setSwingAmount(swingAmount: number): void {
+		this.recordHistory('Change swing', 'swing');
+		this.tempoQuantizer.setSwingAmount(swingAmount);
+		this.swingAmount = this.tempoQuantizer.getSwingAmount();
+		this.requantize();
+	}
+
+	private requantize(): void {
+		if (this.rawNotes.length > 0 && this.quantizeEnabled) {
+			this.quantizeNotes();
+			this.updateNotation();
+		}
+	}
+
+	/**
+	 * Replace the notes with an edited version. Edits become the take, so
+	 * re-quantizing later starts from the edited notes.
+	 */
+	setNotes(notes: DetectedNote[], label = 'Edit notes', coalesceKey: string | null = null): void {
+		this.recordHistory(label, coalesceKey);
+		// Edited notes become the source notes, so the pitch track and audio move onto their timeline
+		this.pitchTrack = this.pitchContour;
+		this.audioOffset += this.notesStart();
+		this.detectedNotes = notes;
+		this.rawNotes = notes;
+		this.updateNotation();
+	}
+
+	/**
+	 * Snap a time on the note timeline to the nearest line of the quantize grid
+	 */
+	snapTime(time: number): number {
+		const gridBeats = 4 / this.subdivision;
+		const beats = this.tempoMap.secondsToBeats(time);
+		return this.tempoMap.beatsToSeconds(Math.round(beats / gridBeats) * gridBeats);
+	}
+
+	/**
+	 * Override the detected key, or pass null to go back to automatic
+	 */
+	setKey(key: KeySignature | null): void {
+		this.recordHistory('Change key');
+		this.keyOverride = key;
+		if (this.detectedNotes.length > 0) {
+			this.updateNotation();
+		}
+	}
+
+	/**
+	 * Override the detected meter, or pass null to go back to automatic
+	 */
+	setTimeSignature(timeSignature: TimeSignature | null): void {
+		this.recordHistory('Change meter');
+		this.timeSignatureOverride = timeSignature;
+		// Tempo changes follow the barlines of the new meter
+		if (this.rawNotes.length > 0 && this.quantizeEnabled && this.followTempo) {
+			this.quantizeNotes();
+		}
+		if (this.detectedNotes.length > 0) {
+			this.updateNotation();
+		}
+	}
+
+	/**
+	 * Move the whole melody up or down, taking the key along with it
+	 */
+	transpose(semitones: number): void {
+		if (this.rawNotes.length === 0 || semitones === 0) return;
+		this.recordHistory('Transpose', 'transpose');
+
+		const shift = (notes: DetectedNote[]) =>
+			this.noteEditor.move(notes, notes.map((_, i) => i), 0, semitones).notes;
+		const shiftKey = (key: KeySignature): KeySignature => ({
+			...key,
+			tonic: (((key.tonic + semitones) % 12) + 12) % 12
+		});
+
+		this.rawNotes = shift(this.rawNotes);
+		this.detectedNotes = shift(this.detectedNotes);
+		const ratio = 2 ** (semitones / 12);
+		this.pitchTrack = this.pitchTrack.map((frame) =>
+			frame.frequency === null ? frame : { ...frame, frequency: frame.frequency * ratio }
+		);
+		this.detectedKey = shiftKey(this.detectedKey);
+		if (this.keyOverride) {
+			this.keyOverride = shiftKey(this.keyOverride);
+		}
+		this.updateNotation();
+	}
+
+	undo(): void {
+		this.restoreHistory((current) => this.history.undo(current));
+	}
+
+	redo(): void {
+		this.restoreHistory((current) => this.history.redo(current));
+	}
+
+	/**
+	 * Remember the current state as an undo step before changing it.
+	 * Changes sharing a coalesce key in quick succession undo together.
+	 */
+	private recordHistory(label: string, coalesceKey: string | null = null): void {
+		this.history.record(label, this.takeSnapshot(), coalesceKey);
+		this.syncHistoryLabels();
+	}
+
+	private restoreHistory(step: (current: EditSnapshot) => EditSnapshot | null): void {
+		// Recording and analysis own the notes until they finish
+		if (this.status === 'recording' || this.status === 'processing') return;
+
+		const snapshot = step(this.takeSnapshot());
+		if (!snapshot) return;
+
+		this.stopPlayback();
+		this.error = null;
+		this.status = snapshot.status;
+		this.projectId = snapshot.projectId;
+		this.takeAudio = snapshot.audio;
+		this.audioOffset = snapshot.audioOffset;
+		this.rawNotes = snapshot.rawNotes;
+		this.detectedNotes = snapshot.detectedNotes;
+		this.pitchTrack = snapshot.pitchTrack;
+		this.applyTakeSettings(snapshot.settings);
+
+		this.updateNotation();
+		this.syncHistoryLabels();
+	}
+
+	private takeSnapshot(): EditSnapshot {
+		return {
+			status: this.status,
+			projectId: this.projectId,
+			rawNotes: $state.snapshot(this.rawNotes),
+			detectedNotes: $state.snapshot(this.detectedNotes),
+			pitchTrack: this.pitchTrack,
+			settings: this.getTakeSettings(),
+			audio: this.takeAudio,
+			audioOffset: this.audioOffset
+		};
+	}
+
+	private getTakeSettings(): TakeSettings {
+		return $state.snapshot({
+			bpm: this.detectedBpm,
+			quantizeEnabled: this.quantizeEnabled,
+			followTempo: this.followTempo,
+			subdivision: this.subdivision,
+			swingAmount: this.swingAmount,
+			tempoChanges: this.tempoChanges,
+			detectedKey: this.detectedKey,
+			keyOverride: this.keyOverride,
+			detectedTimeSignature: this.detectedTimeSignature,
+			timeSignatureOverride: this.timeSignatureOverride
+		});
+	}
+
+	private applyTakeSettings(settings: TakeSettings): void {
+		this.detectedBpm = settings.bpm;
+		this.quantizeEnabled = settings.quantizeEnabled;
+		this.followTempo = settings.followTempo;
+		this.subdivision = settings.subdivision;
+		this.swingAmount = settings.swingAmount;
+		this.tempoChanges = settings.tempoChanges;
+		this.detectedKey = settings.detectedKey;
+		this.keyOverride = settings.keyOverride;
+		this.detectedTimeSignature = settings.detectedTimeSignature;
+		this.timeSignatureOverride = settings.timeSignatureOverride;
+
+		this.tempoQuantizer.setBpm(settings.bpm);
+		this.tempoQuantizer.setSubdivision(settings.subdivision);
+		this.tempoQuantizer.setSwingAmount(settings.swingAmount);
+	}
+
+	private syncHistoryLabels(): void {
+		this.undoLabel = this.history.getUndoLabel();
+		this.redoLabel = this.history.getRedoLabel();
+	}
+
+	/**
+	 * Reload the project list from the library
+	 */
+	async refreshProjects(): Promise<void> {
+		try {
+			this.projects = await this.library.list();
+		} catch (err) {
+			this.error = err instanceof Error ? err.message : 'Failed to load saved takes';
+		}
+	}
+
+	/**
+	 * Make a saved take the current one
+	 */
+	async openProject(id: string): Promise<void> {
+		if (this.status === 'recording' || this.status === 'processing') return;
+
+		try {
+			const project = await this.library.get(id);
+			if (!project) throw new Error('This take is no longer in the library.');
+			const audio = project.hasAudio ? await this.library.getAudio(id) : null;
+
+			if (this.status === 'complete') {
+				this.recordHistory('Open take');
+			}
+			this.stopPlayback();
+			this.error = null;
+			// Cleared first so regenerating the notation doesn't count as an edit
+			this.projectId = null;
+			this.takeAudio = audio;
+			this.audioOffset = project.audioOffset ?? 0;
+			this.rawNotes = project.rawNotes;
+			this.detectedNotes = project.detectedNotes;
+			this.pitchTrack = project.pitchTrack ?? [];
+			this.applyTakeSettings(project.settings);
+			this.updateNotation();
+			this.projectId = project.id;
+			this.status = 'complete';
+		} catch (err) {
+			this.error = err instanceof Error ? err.message : 'Failed to open take';
+		}
+	}
+
+	async renameProject(id: string, name: string): Promise<void> {
+		const trimmed = name.trim();
+		if (!trimmed) return;
+		await this.updateLibrary(() => this.library.rename(id, trimmed));
+	}
+
+	async duplicateProject(id: string): Promise<void> {
+		await this.updateLibrary(() => this.library.duplicate(id));
+	}
+
+	async deleteProject(id: string): Promise<void> {
+		// The take on screen stays, it just is no longer saved
+		if (this.projectId === id) {
+			this.projectId = null;
+		}
+		await this.updateLibrary(() => this.library.delete(id));
+	}
+
+	/**
+	 * The current take as a versioned JSON project file
+	 */
+	exportProject(): string {
+		const saved = this.projects.find((project) => project.id === this.projectId);
+		const now = Date.now();
+		return serializeProject(
+			{
+				name: saved?.name ?? 'Untitled take',
+				createdAt: saved?.createdAt ?? now,
+				updatedAt: now,
+				rawNotes: $state.snapshot(this.rawNotes),
+				detectedNotes: $state.snapshot(this.detectedNotes),
+				settings: this.getTakeSettings(),
+				abcNotation: this.abcNotation
+			},
+			this.midiWriter.getSettings()
+		);
+	}
+
+	/**
+	 * Open a project file as a new take in the library
+	 */
+	async importProject(file: File): Promise<void> {
+		if (this.status === 'recording' || this.status === 'processing') return;
+
+		try {
+			const { project, midi } = parseProject(await file.text());
+
+			if (this.status === 'complete') {
+				this.recordHistory('Import project');
+			}
+			this.stopPlayback();
+			this.error = null;
+			this.projectId = null;
+			this.takeAudio = null;
+			this.audioOffset = 0;
+			this.rawNotes = project.rawNotes;
+			this.detectedNotes = project.detectedNotes;
+			this.pitchTrack = [];
+			this.applyTakeSettings(project.settings);
+			this.midiWriter.setSettings(midi);
+			this.updateNotation();
+			this.status = 'complete';
+			await this.createProject(project.name, project.createdAt);
+		} catch (err) {
+			this.error = err instanceof Error ? err.message : 'Failed to import project';
+		}
+	}
+
+	private async updateLibrary(operation: () => Promise<unknown>): Promise<void> {
+		try {
+			await operation();
+		} catch (err) {
+			this.error = err instanceof Error ? err.message : 'Failed to update saved takes';
+		}
+		await this.refreshProjects();
+	}
+
+	/**
+	 * Save a finished take to the library as a new project
+	 */
+	private async createProject(name: string, createdAt = Date.now()): Promise<void> {
+		const now = Date.now();
+		const id = ProjectLibrary.createId();
+		const audio = this.keepAudio ? this.takeAudio : null;
+		const project: Project = {
+			id,
+			name,
+			createdAt,
+			updatedAt: now,
+			rawNotes: $state.snapshot(this.rawNotes),
+			detectedNotes: $state.snapshot(this.detectedNotes),
+			pitchTrack: this.pitchTrack,
+			audioOffset: this.audioOffset,
+			settings: this.getTakeSettings(),
+			abcNotation: this.abcNotation,
+			hasAudio: audio !== null
+		};
+
+		this.projectId = id;
+		await this.updateLibrary(async () => {
+			if (audio) await this.library.saveAudio(id, audio);
+			await this.library.save(project);
+		});
+	}
+
+	/**
+	 * Write changes to the current take to the library once editing pauses.
+	 * The state is captured now, so switching takes before the save lands
+	 * can't write one take's notes into another's project.
+	 */
+	private scheduleAutosave(): void {
+		const id = this.projectId;
+		if (id === null) return;
+
+		const changes = {
+			rawNotes: $state.snapshot(this.rawNotes),
+			detectedNotes: $state.snapshot(this.detectedNotes),
+			pitchTrack: this.pitchTrack,
+			audioOffset: this.audioOffset,
+			settings: this.getTakeSettings(),
+			abcNotation: this.abcNotation
+		};
+
+		if (this.autosaveTimer !== null) clearTimeout(this.autosaveTimer);
+		this.autosaveTimer = setTimeout(() => {
+			this.autosaveTimer = null;
+			this.updateLibrary(async () => {
+				// Deleted projects stay deleted
+				const project = await this.library.get(id);
+				if (project) await this.library.save({ ...project, ...changes, updatedAt: Date.now() });
+			});
+		}, AUTOSAVE_DELAY);
+	}
+
+	private concatChunks(chunks: Float32Array[]): Float32Array {
+		const samples = new Float32Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+		let offset = 0;
+		for (const chunk of chunks) {
+			samples.set(chunk, offset);
+			offset += chunk.length;
+		}
+		return samples;
+	}
+
+	/**
+	 * Encode the current notes (quantized if enabled) as a Standard MIDI File
+	 */
+	exportMidi(): Uint8Array<ArrayBuffer> {
+		return writeMidi(this.midiWriter, this.detectedNotes, this.scoreContext);
+	}
+
+	/**
+	 * Encode the take's original audio as a WAV file, if it has any
+	 */
+	exportWav(): Uint8Array<ArrayBuffer> | null {
+		return this.takeAudio ? encodeWav(this.takeAudio.samples, this.takeAudio.sampleRate) : null;
+	}
+
+	/**
+	 * Render the current notes as a MusicXML score
+	 */
+	exportMusicXml(): string {
+		return writeMusicXml(this.musicXmlGenerator, this.detectedNotes, this.scoreContext);
+	}
+
+	/**
+	 * Listen to the singer against the current notes. A bar of count-in
+	 * runs before the first beat; the take's timeline then plays in real time.
+	 */
+	async startPractice(): Promise<void> {
+		if (this.status !== 'complete' || this.isPracticing || this.detectedNotes.length === 0) return;
+
+		this.stopPlayback();
+		this.cancelCalibration();
+		this.error = null;
+		this.practiceReference = $state.snapshot(this.detectedNotes);
+		const { beats, beatType } = this.timeSignature;
+		this.practiceLeadIn = this.tempoMap.beatsToSeconds((beats * 4) / beatType);
+		this.clearPractice();
+		this.practicePosition = -this.practiceLeadIn;
+
+		try {
+			this.stopAnalyzer();
+			this.recorder = new AudioRecorder();
+			this.isPracticing = true;
+			await this.recorder.start((samples) => this.processPractice(samples));
+			this.useDeviceCalibration();
+		} catch (err) {
+			this.recorder = null;
+			this.isPracticing = false;
+			this.error = err instanceof Error ? err.message : 'Failed to start practice';
+		}
+	}
+
+	/**
+	 * Stop listening and score what was sung
+	 */
+	stopPractice(): void {
+		if (!this.isPracticing) return;
+
+		this.recorder?.stop();
+		this.recorder = null;
+		this.stopAnalyzer();
+		this.isPracticing = false;
+		this.currentPitch = null;
+		this.practiceResult = this.practiceScorer.score(this.practiceReference, this.practiceBuffer);
+	}
+
+	clearPractice(): void {
+		this.practiceBuffer = [];
+		this.practiceFrameCount = 0;
+		this.practiceResult = null;
+	}
+
+	/**
+	 * Sung pitch of the practice run, timestamped on the take's timeline
+	 */
+	get practiceFrames(): readonly PitchData[] {
+		return this.practiceFrameCount > 0 ? this.practiceBuffer : [];
+	}
+
+	/**
+	 * Cents from a reference note to a sung frequency, as practice scores them
+	 */
+	practiceDeviation(frequency: number, midiNumber: number): number {
+		return this.practiceScorer.deviation(frequency, midiNumber);
+	}
+
+	private processPractice(samples: Float32Array): void {
+		if (!this.isPracticing || !this.recorder) return;
+
+		const sampleRate = this.recorder.getSampleRate();
+		this.analyzer ??= this.startAnalyzer(sampleRate, (frames) =>
+			this.receivePractice(frames, this.analysisLatency(sampleRate))
+		);
+		this.analyzer.push(samples);
+	}
+
+	private receivePractice(frames: PitchData[], latency: number): void {
+		// Recording time 0 is the start of the count-in; frames move back to
+		// when the sound they measured was sung
+		const pitches = frames.map((pitch) => ({
+			...pitch,
+			timestamp: pitch.timestamp - this.practiceLeadIn - latency
 		}));
+		this.practiceBuffer.push(...pitches);
+		this.practiceFrameCount = this.practiceBuffer.length;
+		this.currentPitch = frames[frames.length - 1];
+		this.practicePosition = pitches[pitches.length - 1].timestamp;
+
+		const last = this.practiceReference[this.practiceReference.length - 1];
+		if (this.practicePosition > last.startTime + last.duration + PRACTICE_TAIL) {
+			this.stopPractice();
+		}
 	}
 
-	startPlayback(): void {
-		this.startPlaybackWithScale(1);
+	/**
+	 * Open the microphone and measure the room's noise; the low and high
+	 * note steps follow when the singer is ready
+	 */
+	async startCalibration(): Promise<void> {
+		// The microphone and analysis belong to a take until it is finished
+		if (this.status === 'recording' || this.status === 'processing') return;
+		if (this.isPracticing || this.calibrationStep !== null) return;
+
+		this.stopPlayback();
+		this.calibrationError = null;
+		try {
+			this.recorder = new AudioRecorder();
+			this.calibrationStep = 'noise';
+			await this.recorder.start((samples) => this.processCalibration(samples));
+			this.calibrator = new MicCalibrator(this.recorder.getSampleRate());
+			this.listenForCalibrationStep();
+		} catch (err) {
+			this.recorder = null;
+			this.calibrationStep = null;
+			this.calibrationError = err instanceof Error ? err.message : 'Failed to open the microphone';
+		}
+	}
+
+	/**
+	 * Run the current step, or run it again after a failed attempt
+	 */
+	listenForCalibrationStep(): void {
+		if (!this.calibrator || this.calibrationStep === null) return;
+
+		this.calibrator.begin(this.calibrationStep);
+		this.calibrationHeard = 0;
+		this.calibrationProgress = 0;
+		this.calibrationReading = null;
+		this.calibrationError = null;
+		this.isCalibrationListening = true;
+	}
+
+	cancelCalibration(): void {
+		if (this.calibrationStep === null) return;
+
+		this.recorder?.stop();
+		this.recorder = null;
+		this.calibrator = null;
+		this.calibrationStep = null;
+		this.isCalibrationListening = false;
+		this.calibrationReading = null;
+	}
+
+	/**
+	 * Forget the calibration of the microphone it was measured on
+	 */
+	clearCalibration(): void {
+		if (!this.calibration) return;
+		deleteCalibration(this.calibration.deviceId);
+		this.calibration = null;
 	}
 
-	startPlaybackWithScale(scaleFactor: number): void {
+	private processCalibration(samples: Float32Array): void {
+		if (!this.isCalibrationListening || !this.calibrator || !this.recorder || this.calibrationStep === null) return;
+
+		this.calibrationReading = this.calibrator.push(samples) ?? this.calibrationReading;
+		this.calibrationHeard += samples.length;
+		this.calibrationProgress = Math.min(
+			1,
+			this.calibrationHeard / (this.recorder.getSampleRate() * CALIBRATION_STEP_SECONDS)
+		);
+		if (this.calibrationProgress < 1) return;
+
+		this.isCalibrationListening = false;
+		try {
+			this.calibrator.end(this.calibrationStep);
+		} catch (err) {
+			this.calibrationError = err instanceof Error ? err.message : 'Please try that step again.';
+			return;
+		}
+
+		if (this.calibrationStep === 'noise') {
+			this.calibrationStep = 'low';
+		} else if (this.calibrationStep === 'low') {
+			this.calibrationStep = 'high';
+		} else {
+			this.finishCalibration();
+		}
+	}
+
+	private finishCalibration(): void {
+		if (!this.calibrator || !this.recorder) return;
+
+		const device = this.recorder.getDevice();
+		try {
+			const calibration = this.calibrator.finish(device.id, device.label);
+			saveCalibration(calibration);
+			this.calibration = calibration;
+			this.cancelCalibration();
+		} catch (err) {
+			this.calibrationError = err instanceof Error ? err.message : 'Please sing both notes again.';
+			this.calibrationStep = 'low';
+		}
+	}
+
+	/**
+	 * Switch to the calibration of the microphone just opened, if it has one
+	 */
+	private useDeviceCalibration(): void {
+		if (!this.recorder) return;
+		this.calibration = loadCalibrations()[this.recorder.getDevice().id] ?? null;
+	}
+
+	get hasTakeAudio(): boolean {
+		return this.takeAudio !== null;
+	}
+
+	setPlaybackSource(source: PlaybackSource): void {
+		this.playbackSource = source;
+	}
+
+	/**
+	 * The take's original audio and where the notes' timeline starts in it
+	 */
+	getTakeAudio(): { audio: TakeAudio; offset: number } | null {
+		const audio = this.takeAudio;
+		if (!audio || this.rawNotes.length === 0 || this.detectedNotes.length === 0) return null;
+		return { audio, offset: this.audioOffset + this.notesStart() - this.analysisLatency(audio.sampleRate) };
+	}
+
+	/**
+	 * Where time 0 of the notes on screen falls on the raw notes' timeline
+	 */
+	private notesStart(): number {
+		if (this.rawNotes.length === 0 || this.detectedNotes.length === 0) return 0;
+		// Edits that add or remove notes leave nothing to warp by but the first note
+		return this.rawNotes.length === this.detectedNotes.length
+			? new TimeWarp(this.detectedNotes, this.rawNotes).map(0)
+			: this.rawNotes[0].startTime - this.detectedNotes[0].startTime;
+	}
+
+	/**
+	 * How far analysis trails the audio: frames, and the notes found in
+	 * them, are timestamped at the end of their window
+	 */
+	private analysisLatency(sampleRate: number): number {
+		return (this.analysisSettings.windowSize ?? 2048) / sampleRate;
+	}
+
+	startPlayback(): void {
 		if (this.isPlaying || this.detectedNotes.length === 0) return;
 
 		this.isPlaying = true;
-		this.playbackScaleFactor = scaleFactor;
 		// Notes are normalized to start at 0, so playback starts at 0
 		this.playbackPosition = 0;
 		this.playbackStartTime = performance.now();
@@ -195,8 +1253,7 @@ class AudioState {
 		if (!this.isPlaying || this.detectedNotes.length === 0) return;
 
 		const elapsed = (performance.now() - this.playbackStartTime) / 1000;
-		// Scale elapsed time to match piano roll duration
-		this.playbackPosition = elapsed * this.playbackScaleFactor;
+		this.playbackPosition = elapsed;
 
 		// Calculate total duration
 		const lastNote = this.detectedNotes[this.detectedNotes.length - 1];
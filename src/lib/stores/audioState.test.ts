@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import { audioState } from '$lib/stores/audioState.svelte';
+import { NoteEditor } from '$lib/notation/NoteEditor';
+import { SEGMENTATION_CORPUS } from '$lib/testing/SyntheticCorpus';
+import { renderMelody } from '$lib/testing/SyntheticVoice';
+
+const SAMPLE_RATE = 44100;
+const SILENCE = 1; // seconds before the melody, so its first note starts well into the recording
+
+// Decoding and the project library need a browser; the take itself is analyzed for real
+vi.mock('$lib/audio/AudioFileDecoder', () => ({
+	AudioFileDecoder: class {
+		async decode() {
+			const melody = renderMelody(SEGMENTATION_CORPUS[0].notes, { sampleRate: SAMPLE_RATE });
+			const samples = new Float32Array(SILENCE * SAMPLE_RATE + melody.length);
+			samples.set(melody, SILENCE * SAMPLE_RATE);
+			return { samples, sampleRate: SAMPLE_RATE };
+		}
+	}
+}));
+vi.mock('$lib/storage/ProjectLibrary', () => ({
+	ProjectLibrary: class {
+		static createId() {
+			return 'take';
+		}
+		async list() {
+			return [];
+		}
+		async get() {
+			return null;
+		}
+		async save() {}
+		async saveAudio() {}
+	}
+}));
+
+describe('audioState', () => {
+	it('keeps the original audio lined up with the notes after an edit', async () => {
+		await audioState.importAudioFile(new File([], 'take.wav'));
+		const before = audioState.getTakeAudio()?.offset ?? NaN;
+		expect(before).toBeGreaterThan(SILENCE);
+
+		const edited = new NoteEditor().move(audioState.detectedNotes, [1], 0, 1).notes;
+		audioState.setNotes(edited);
+		expect(audioState.getTakeAudio()?.offset).toBeCloseTo(before, 6);
+
+		audioState.undo();
+		expect(audioState.getTakeAudio()?.offset).toBeCloseTo(before, 6);
+	});
+});
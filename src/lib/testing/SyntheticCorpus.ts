@@ -0,0 +1,266 @@
+import { atTempo, type RenderSettings, type SyntheticCase } from '$lib/testing/SyntheticVoice';
+import type { KeySignature, TimeSignature } from '$lib/types';
+
+export interface RegressionCase extends SyntheticCase {
+	render: Partial<RenderSettings>;
+	bpm: number; // tempo at the start of the melody
+	endBpm?: number; // tempo at the end, when it drifts
+	key: KeySignature;
+	timeSignature?: TimeSignature; // only where the melody leaves no doubt
+}
+
+const VIBRATO = { rate: 5.5, depth: 50 };
+
+/**
+ * One case per segmentation behaviour the note quantizer has to get right
+ */
+export const SEGMENTATION_CORPUS: SyntheticCase[] = [
+	{
+		name: 'separated-notes',
+		description: 'Steady notes with silence between them',
+		notes: [
+			{ midi: 60, duration: 0.4, gap: 0.2 },
+			{ midi: 64, duration: 0.4, gap: 0.2 },
+			{ midi: 67, duration: 0.4 }
+		]
+	},
+	{
+		name: 'chromatic-legato',
+		description: 'A half-step scale sung without breaks',
+		notes: [
+			{ midi: 60, duration: 0.4 },
+			{ midi: 61, duration: 0.4 },
+			{ midi: 62, duration: 0.4 },
+			{ midi: 63, duration: 0.4 },
+			{ midi: 64, duration: 0.4 }
+		]
+	},
+	{
+		name: 'fast-steps',
+		description: 'Whole steps up and down in quick legato notes',
+		notes: [
+			{ midi: 65, duration: 0.3 },
+			{ midi: 67, duration: 0.3 },
+			{ midi: 69, duration: 0.3 },
+			{ midi: 67, duration: 0.3 },
+			{ midi: 65, duration: 0.4 }
+		]
+	},
+	{
+		name: 'half-step-neighbours',
+		description: 'Up and down a half step, as in a turn',
+		notes: [
+			{ midi: 64, duration: 0.4 },
+			{ midi: 65, duration: 0.4 },
+			{ midi: 64, duration: 0.4 },
+			{ midi: 63, duration: 0.4 },
+			{ midi: 64, duration: 0.4 }
+		]
+	},
+	{
+		name: 'vibrato-held',
+		description: 'One long note with 50 cent vibrato',
+		notes: [{ midi: 57, duration: 2, vibrato: VIBRATO }]
+	},
+	{
+		name: 'vibrato-wide',
+		description: 'A held note with wide, slow vibrato',
+		notes: [{ midi: 62, duration: 1.5, vibrato: { rate: 4.5, depth: 90 } }]
+	},
+	{
+		name: 'vibrato-steps',
+		description: 'Whole and half steps sung legato with vibrato',
+		notes: [
+			{ midi: 62, duration: 0.6, vibrato: VIBRATO },
+			{ midi: 64, duration: 0.6, vibrato: VIBRATO },
+			{ midi: 65, duration: 0.6, vibrato: VIBRATO },
+			{ midi: 64, duration: 0.6, vibrato: VIBRATO }
+		]
+	},
+	{
+		name: 'glide-fifth',
+		description: 'A portamento up a fifth between two held notes',
+		notes: [
+			{ midi: 60, duration: 0.7, glide: 0.2 },
+			{ midi: 67, duration: 0.6 }
+		]
+	},
+	{
+		name: 'glide-slow',
+		description: 'A slow slide down an octave, which must not leave notes along the way',
+		notes: [
+			{ midi: 72, duration: 1.0, glide: 0.6 },
+			{ midi: 60, duration: 0.6 }
+		]
+	},
+	{
+		name: 'scoop',
+		description: 'Notes approached from two semitones below',
+		notes: [
+			{ midi: 62, duration: 0.5, scoop: { from: -2, duration: 0.12 }, gap: 0.2 },
+			{ midi: 66, duration: 0.5, scoop: { from: -2, duration: 0.12 } }
+		]
+	},
+	{
+		name: 'repeated-la',
+		description: '"La-la-la-la" on one pitch, split only by the consonants',
+		notes: [
+			{ midi: 64, duration: 0.35 },
+			{ midi: 64, duration: 0.35, articulation: 0.07 },
+			{ midi: 64, duration: 0.35, articulation: 0.07 },
+			{ midi: 64, duration: 0.35, articulation: 0.07 }
+		]
+	},
+	{
+		name: 'repeated-staccato',
+		description: 'One pitch repeated with very short breaks',
+		notes: [
+			{ midi: 59, duration: 0.3, gap: 0.05 },
+			{ midi: 59, duration: 0.3, gap: 0.05 },
+			{ midi: 59, duration: 0.3 }
+		]
+	},
+	{
+		name: 'repeated-vibrato',
+		description: 'Repeated notes with vibrato and consonants',
+		notes: [
+			{ midi: 67, duration: 0.5, vibrato: VIBRATO },
+			{ midi: 67, duration: 0.5, vibrato: VIBRATO, articulation: 0.08 },
+			{ midi: 69, duration: 0.5, vibrato: VIBRATO, articulation: 0.08 }
+		]
+	}
+];
+
+const C_MAJOR: KeySignature = { tonic: 0, mode: 'major' };
+
+/**
+ * Whole melodies for the end-to-end regression suite, each sung in a
+ * different way: plain tones, rich tones with vibrato, background noise,
+ * rests and a drifting tempo
+ */
+export const REGRESSION_CORPUS: RegressionCase[] = [
+	{
+		name: 'sine-scale',
+		description: 'C major scale in quarter notes on a pure tone',
+		render: { waveform: 'sine' },
+		bpm: 100,
+		key: C_MAJOR,
+		notes: atTempo(
+			[60, 62, 64, 65, 67, 69, 71, 72].map((midi) => ({ midi, beats: 1 })),
+			100
+		)
+	},
+	{
+		name: 'sawtooth-vibrato',
+		description: 'G major arpeggio in quarters and eighths, a bright tone with vibrato',
+		render: { waveform: 'sawtooth' },
+		bpm: 90,
+		key: { tonic: 7, mode: 'major' },
+		notes: atTempo(
+			[
+				{ midi: 55, beats: 1 },
+				{ midi: 59, beats: 0.5 },
+				{ midi: 62, beats: 0.5 },
+				{ midi: 67, beats: 1 },
+				{ midi: 66, beats: 1 },
+				{ midi: 62, beats: 1 },
+				{ midi: 59, beats: 0.5 },
+				{ midi: 57, beats: 0.5 },
+				{ midi: 55, beats: 2 }
+			].map((note) => ({ ...note, vibrato: VIBRATO })),
+			90
+		)
+	},
+	{
+		name: 'noisy-voice',
+		description: 'The second phrase of "Ode to Joy" over loud background hiss',
+		render: { waveform: 'voice', noiseLevel: 0.02 },
+		bpm: 120,
+		key: { tonic: 2, mode: 'major' },
+		notes: atTempo(
+			[
+				{ midi: 66, beats: 1 },
+				{ midi: 66, beats: 1, articulation: 0.08 },
+				{ midi: 67, beats: 1 },
+				{ midi: 69, beats: 1 },
+				{ midi: 69, beats: 1, articulation: 0.08 },
+				{ midi: 67, beats: 1 },
+				{ midi: 66, beats: 1 },
+				{ midi: 64, beats: 1 },
+				{ midi: 62, beats: 1 },
+				{ midi: 62, beats: 1, articulation: 0.08 },
+				{ midi: 64, beats: 1 },
+				{ midi: 66, beats: 1 },
+				{ midi: 64, beats: 1.5 },
+				{ midi: 62, beats: 0.5 },
+				{ midi: 62, beats: 2, articulation: 0.08 }
+			],
+			120
+		)
+	},
+	{
+		name: 'rests',
+		description: 'Short phrases separated by rests of a beat or more',
+		render: { waveform: 'voice' },
+		bpm: 100,
+		key: { tonic: 5, mode: 'major' },
+		notes: atTempo(
+			[
+				{ midi: 65, beats: 1 },
+				{ midi: 69, beats: 1 },
+				{ midi: 72, beats: 1, restBeats: 1 },
+				{ midi: 70, beats: 1 },
+				{ midi: 69, beats: 1 },
+				{ midi: 67, beats: 1, restBeats: 1 },
+				{ midi: 65, beats: 0.5 },
+				{ midi: 67, beats: 0.5 },
+				{ midi: 69, beats: 1, restBeats: 2 },
+				{ midi: 65, beats: 2 }
+			],
+			100
+		)
+	},
+	{
+		name: 'tempo-drift',
+		description: 'A steady walk up and down, speeding up from 90 to 110 BPM',
+		render: { waveform: 'voice' },
+		bpm: 90,
+		endBpm: 110,
+		key: C_MAJOR,
+		notes: atTempo(
+			[60, 62, 64, 65, 67, 65, 64, 62, 60, 64, 67, 72, 67, 64, 62, 60].map((midi) => ({
+				midi,
+				beats: 1,
+				vibrato: VIBRATO
+			})),
+			90,
+			110
+		)
+	},
+	{
+		name: 'minor-waltz',
+		description: 'A minor melody in 3/4, half then quarter in each bar',
+		render: { waveform: 'sawtooth' },
+		bpm: 120,
+		key: { tonic: 9, mode: 'minor' },
+		timeSignature: { beats: 3, beatType: 4 },
+		notes: atTempo(
+			[
+				{ midi: 69, beats: 2 },
+				{ midi: 72, beats: 1 },
+				{ midi: 71, beats: 2 },
+				{ midi: 68, beats: 1 },
+				{ midi: 69, beats: 2 },
+				{ midi: 64, beats: 1 },
+				{ midi: 65, beats: 2 },
+				{ midi: 64, beats: 1 },
+				{ midi: 62, beats: 2 },
+				{ midi: 60, beats: 1 },
+				{ midi: 59, beats: 2 },
+				{ midi: 64, beats: 1 },
+				{ midi: 57, beats: 3 }
+			],
+			120
+		)
+	}
+];
@@ -0,0 +1,157 @@
+/**
+ * Synthetic singing for exercising the detection pipeline: a voice-like
+ * tone with controllable pitch movement and articulation, so each
+ * segmentation case can be produced on demand with a known answer.
+ */
+
+export interface SyntheticNote {
+	midi: number;
+	duration: number; // seconds, including a glide into the next note
+	vibrato?: { rate: number; depth: number }; // Hz, and cents either side of the pitch
+	scoop?: { from: number; duration: number }; // start this many semitones away, reaching the pitch after duration seconds
+	glide?: number; // seconds at the end spent sliding to the next note's pitch
+	articulation?: number; // seconds of consonant at the start, where the level dips ("l" in "la")
+	gap?: number; // seconds of silence after the note
+	level?: number; // peak amplitude, 0-1
+	beat?: number; // position in beats from the first note, for melodies laid out at a tempo
+}
+
+export type Waveform = 'voice' | 'sine' | 'sawtooth';
+
+export interface RenderSettings {
+	sampleRate: number;
+	waveform: Waveform;
+	noiseLevel: number; // amplitude of the background hiss
+}
+
+export interface SyntheticCase {
+	name: string;
+	description: string;
+	notes: SyntheticNote[];
+}
+
+export interface ExpectedNote {
+	midiNumber: number;
+	startTime: number; // seconds
+	duration: number; // seconds, to the middle of any glide into the next note
+}
+
+const DEFAULT_SETTINGS: RenderSettings = {
+	sampleRate: 44100,
+	waveform: 'voice',
+	noiseLevel: 0.001 // room noise, about -60 dBFS
+};
+
+const DEFAULT_LEVEL = 0.3;
+const LEAD_IN = 0.3; // seconds of silence before the first note
+const TAIL = 0.3; // ...and after the last
+const FADE = 0.02; // seconds of fade in and out around silence
+// Relative strength of the first harmonics, roughly an "ah" vowel
+const VOICE_HARMONICS = [1, 0.5, 0.3, 0.15];
+// A band-limited sawtooth: the first 16 harmonics, falling off as 1/n
+const SAWTOOTH_HARMONICS = Array.from({ length: 16 }, (_, h) => 1 / (h + 1));
+
+/**
+ * Render notes back to back, with silence around them
+ */
+export function renderMelody(notes: SyntheticNote[], settings: Partial<RenderSettings> = {}): Float32Array {
+	const { sampleRate, waveform, noiseLevel } = { ...DEFAULT_SETTINGS, ...settings };
+	const harmonics = waveform === 'sine' ? [1] : waveform === 'sawtooth' ? SAWTOOTH_HARMONICS : VOICE_HARMONICS;
+	const peak = harmonics.reduce((sum, strength) => sum + strength, 0);
+
+	const total = LEAD_IN + notes.reduce((sum, note) => sum + note.duration + (note.gap ?? 0), 0) + TAIL;
+	const samples = new Float32Array(Math.ceil(total * sampleRate));
+
+	let phase = 0;
+	let time = LEAD_IN;
+	notes.forEach((note, i) => {
+		const next = notes[i + 1];
+		const slidesOn = next !== undefined && !note.gap;
+		const start = Math.round(time * sampleRate);
+		const length = Math.round(note.duration * sampleRate);
+		const fadeIn = i === 0 || notes[i - 1].gap ? FADE : 0;
+		const fadeOut = slidesOn ? 0 : FADE;
+
+		for (let n = 0; n < length; n++) {
+			const t = n / sampleRate;
+			const midi = pitchAt(note, next, slidesOn, t);
+			phase += (2 * Math.PI * 440 * Math.pow(2, (midi - 69) / 12)) / sampleRate;
+
+			let wave = 0;
+			harmonics.forEach((strength, h) => (wave += strength * Math.sin((h + 1) * phase)));
+			samples[start + n] = (note.level ?? DEFAULT_LEVEL) * envelope(note, t, fadeIn, fadeOut) * (wave / peak);
+		}
+		time += note.duration + (note.gap ?? 0);
+	});
+
+	// Deterministic noise, so every run renders the same samples
+	let seed = 1;
+	for (let n = 0; n < samples.length; n++) {
+		seed = (seed * 16807) % 2147483647;
+		samples[n] += noiseLevel * ((seed / 2147483647) * 2 - 1);
+	}
+	return samples;
+}
+
+/**
+ * Lay out notes given in beats at a tempo that drifts steadily from
+ * startBpm to endBpm over the melody, as a singer speeding up or slowing down
+ */
+export function atTempo(
+	notes: (Omit<SyntheticNote, 'duration' | 'gap'> & { beats: number; restBeats?: number })[],
+	startBpm: number,
+	endBpm = startBpm
+): SyntheticNote[] {
+	const totalBeats = notes.reduce((sum, note) => sum + note.beats + (note.restBeats ?? 0), 0);
+	const secondsPerBeat = (beat: number) => 60 / (startBpm + ((endBpm - startBpm) * beat) / totalBeats);
+
+	let beat = 0;
+	return notes.map(({ beats, restBeats = 0, ...note }) => {
+		const duration = beats * secondsPerBeat(beat + beats / 2);
+		const gap = restBeats * secondsPerBeat(beat + beats + restBeats / 2);
+		const laidOut = { ...note, duration, beat };
+		beat += beats + restBeats;
+		return gap > 0 ? { ...laidOut, gap } : laidOut;
+	});
+}
+
+/**
+ * Where each note should be found: its pitch, starting at its onset or
+ * halfway through the glide into it
+ */
+export function expectedNotes(notes: SyntheticNote[]): ExpectedNote[] {
+	let time = LEAD_IN;
+	return notes.map((note, i) => {
+		const previous = notes[i - 1];
+		const glideIn = previous?.glide && !previous.gap ? previous.glide / 2 : 0;
+		const glideOut = note.glide && !note.gap && notes[i + 1] ? note.glide / 2 : 0;
+		const expected = { midiNumber: note.midi, startTime: time - glideIn, duration: note.duration + glideIn - glideOut };
+		time += note.duration + (note.gap ?? 0);
+		return expected;
+	});
+}
+
+function pitchAt(note: SyntheticNote, next: SyntheticNote | undefined, slidesOn: boolean, t: number): number {
+	let midi = note.midi;
+	if (note.scoop && t < note.scoop.duration) {
+		midi += note.scoop.from * (1 - t / note.scoop.duration);
+	}
+	if (note.glide && slidesOn && next && t > note.duration - note.glide) {
+		midi += (next.midi - note.midi) * ((t - (note.duration - note.glide)) / note.glide);
+	}
+	if (note.vibrato) {
+		midi += (note.vibrato.depth / 100) * Math.sin(2 * Math.PI * note.vibrato.rate * t);
+	}
+	return midi;
+}
+
+function envelope(note: SyntheticNote, t: number, fadeIn: number, fadeOut: number): number {
+	let gain = 1;
+	if (fadeIn > 0 && t < fadeIn) gain *= t / fadeIn;
+	if (fadeOut > 0 && t > note.duration - fadeOut) gain *= (note.duration - t) / fadeOut;
+	if (note.articulation && t < note.articulation) {
+		// Down to a tenth and back up, lowest in the middle of the consonant
+		gain *= 0.1 + 0.9 * (0.5 + 0.5 * Math.cos((2 * Math.PI * t) / note.articulation));
+	}
+	return gain;
+}
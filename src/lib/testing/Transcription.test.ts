@@ -0,0 +1,76 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { REGRESSION_CORPUS } from '$lib/testing/SyntheticCorpus';
+import { expectedNotes, renderMelody } from '$lib/testing/SyntheticVoice';
+import { transcribe, type Transcription } from '$lib/testing/Transcription';
+
+const SAMPLE_RATE = 44100;
+// Onsets are compared relative to the first note, since analysis delays every note alike
+const ONSET_TOLERANCE = 0.08; // seconds, any one note
+const MEAN_ONSET_TOLERANCE = 0.04; // seconds, across the melody
+const TEMPO_TOLERANCE = 0.05; // fraction of the BPM
+
+/**
+ * MIDI bytes as hex, 16 to a line, so golden files diff readably
+ */
+function hexDump(bytes: Uint8Array): string {
+	const lines: string[] = [];
+	for (let i = 0; i < bytes.length; i += 16) {
+		lines.push(Array.from(bytes.subarray(i, i + 16), (byte) => byte.toString(16).padStart(2, '0')).join(' '));
+	}
+	return lines.join('\n') + '\n';
+}
+
+describe('transcription of synthetic melodies', () => {
+	for (const testCase of REGRESSION_CORPUS) {
+		describe(`${testCase.name}: ${testCase.description}`, () => {
+			const expected = expectedNotes(testCase.notes);
+			let result: Transcription;
+
+			beforeAll(async () => {
+				const samples = renderMelody(testCase.notes, { ...testCase.render, sampleRate: SAMPLE_RATE });
+				result = await transcribe(samples, { sampleRate: SAMPLE_RATE });
+			});
+
+			it('finds every note at its pitch', () => {
+				expect(result.rawNotes.map((note) => note.midiNumber)).toEqual(expected.map((note) => note.midiNumber));
+			});
+
+			it('places onsets where they were sung', () => {
+				const errors = result.rawNotes.map((note, i) => {
+					const onset = note.startTime - result.rawNotes[0].startTime;
+					return Math.abs(onset - (expected[i].startTime - expected[0].startTime));
+				});
+				errors.forEach((error, i) => expect(error, `onset of note ${i + 1}`).toBeLessThan(ONSET_TOLERANCE));
+				const mean = errors.reduce((sum, error) => sum + error, 0) / errors.length;
+				expect(mean).toBeLessThan(MEAN_ONSET_TOLERANCE);
+			});
+
+			it('detects the tempo, key and meter', () => {
+				const tempos = [testCase.bpm, testCase.endBpm ?? testCase.bpm];
+				expect(result.bpm).toBeGreaterThanOrEqual(Math.min(...tempos) * (1 - TEMPO_TOLERANCE));
+				expect(result.bpm).toBeLessThanOrEqual(Math.max(...tempos) * (1 + TEMPO_TOLERANCE));
+				expect(result.key).toEqual(testCase.key);
+				if (testCase.timeSignature) expect(result.timeSignature).toEqual(testCase.timeSignature);
+			});
+
+			it('quantizes each note onto its beat', () => {
+				const { tempoMap, notes } = result;
+				const firstBeat = tempoMap.secondsToBeats(notes[0].startTime);
+				const beats = notes.map((note) => Math.round((tempoMap.secondsToBeats(note.startTime) - firstBeat) * 1000) / 1000);
+				expect(beats).toEqual(testCase.notes.map((note) => note.beat));
+			});
+
+			it('writes the expected ABC', async () => {
+				await expect(result.abc).toMatchFileSnapshot(`golden/${testCase.name}.abc`);
+			});
+
+			it('writes the expected MusicXML', async () => {
+				await expect(result.musicXml).toMatchFileSnapshot(`golden/${testCase.name}.musicxml`);
+			});
+
+			it('writes the expected MIDI', async () => {
+				await expect(hexDump(result.midi)).toMatchFileSnapshot(`golden/${testCase.name}.mid.hex`);
+			});
+		});
+	}
+});
@@ -0,0 +1,71 @@
+import { OfflineAnalyzer } from '$lib/pitch/OfflineAnalyzer';
+import type { AnalysisSettings } from '$lib/pitch/FrameAnalyzer';
+import { AbcGenerator } from '$lib/notation/AbcGenerator';
+import { TempoQuantizer, isTripletSubdivision } from '$lib/notation/TempoQuantizer';
+import { MidiWriter } from '$lib/notation/MidiWriter';
+import { MusicXmlGenerator } from '$lib/notation/MusicXmlGenerator';
+import type { TempoMap } from '$lib/notation/TempoMap';
+import { TakeTranscriber, takeTempoMap, writeAbc, writeMidi, writeMusicXml, type ScoreContext } from '$lib/notation/TakeTranscriber';
+import type { DetectedNote, KeySignature, PitchData, TimeSignature } from '$lib/types';
+
+export interface TranscriptionSettings {
+	sampleRate: number;
+	analysis: Partial<AnalysisSettings>;
+	quantize: boolean;
+	subdivision: number;
+	followTempo: boolean;
+}
+
+export interface Transcription {
+	rawNotes: DetectedNote[];
+	pitchTrack: PitchData[];
+	notes: DetectedNote[]; // quantized, or moved to start at 0
+	key: KeySignature;
+	timeSignature: TimeSignature;
+	bpm: number;
+	tempoMap: TempoMap;
+	abc: string;
+	midi: Uint8Array;
+	musicXml: string;
+}
+
+const DEFAULT_SETTINGS: TranscriptionSettings = {
+	sampleRate: 44100,
+	analysis: {},
+	quantize: true,
+	subdivision: 8,
+	followTempo: true
+};
+
+/**
+ * Run a whole take from samples to every export format, without the store
+ * or any browser API. Takes go through the same pipeline as in the app, so
+ * tests see what a user would.
+ */
+export async function transcribe(samples: Float32Array, settings: Partial<TranscriptionSettings> = {}): Promise<Transcription> {
+	const { sampleRate, analysis, quantize, subdivision, followTempo } = { ...DEFAULT_SETTINGS, ...settings };
+	const { notes: rawNotes, pitchTrack } = await new OfflineAnalyzer(sampleRate, analysis).analyze(samples);
+
+	// A fresh app starts at 120 BPM in 4/4
+	const transcriber = new TakeTranscriber(new TempoQuantizer({ subdivision }));
+	const take = transcriber.transcribe(rawNotes, { quantize, followTempo }, { bpm: 120, timeSignature: { beats: 4, beatType: 4 } });
+	const context: ScoreContext = {
+		tempoMap: takeTempoMap(quantize, take.tempoChanges, take.bpm),
+		triplets: quantize && isTripletSubdivision(subdivision),
+		key: take.key,
+		timeSignature: take.timeSignature
+	};
+
+	return {
+		rawNotes,
+		pitchTrack,
+		notes: take.notes,
+		key: take.key,
+		timeSignature: take.timeSignature,
+		bpm: take.bpm,
+		tempoMap: context.tempoMap,
+		abc: writeAbc(new AbcGenerator(), take.notes, context),
+		midi: writeMidi(new MidiWriter(), take.notes, context),
+		musicXml: writeMusicXml(new MusicXmlGenerator(), take.notes, context)
+	};
+}
@@ -1,7 +1,9 @@
 export interface PitchData {
-	frequency: number | null;
-	clarity: number;
+	frequency: number | null; // stabilized pitch, held on a note
+	clarity: number; // 0-1 confidence reported by the pitch algorithm
 	timestamp: number;
+	rawFrequency?: number | null; // this frame's own estimate, before smoothing, for note segmentation
+	level?: number; // RMS of the frame's window, for finding note onsets
 }
 
 export interface DetectedNote {
@@ -28,4 +30,82 @@ export interface NoteInfo {
 	cents: number;
 }
 
+export type KeyMode = 'major' | 'minor';
+
+export interface KeySignature {
+	tonic: number; // pitch class, C=0
+	mode: KeyMode;
+}
+
+export interface TempoChange {
+	beat: number; // position in quarter-note beats from the start of the grid
+	bpm: number; // quarter-note tempo from this beat on
+}
+
+export interface TimeSignature {
+	beats: number; // numerator
+	beatType: number; // denominator
+}
+
+export interface SpelledPitch {
+	step: string; // letter name A-G
+	alter: number; // -1 flat, 0 natural, 1 sharp
+	octave: number;
+}
+
 export type RecordingStatus = 'idle' | 'recording' | 'processing' | 'complete';
+
+// A microphone and singer measured by the calibration wizard
+export interface Calibration {
+	deviceId: string; // the input it was measured on
+	deviceLabel: string;
+	noiseLevel: number; // RMS of the room with nobody singing
+	lowFrequency: number; // Hz, the singer's comfortable low and high notes
+	highFrequency: number;
+	minLevel: number; // detector settings derived from the above
+	minFrequency: number;
+	maxFrequency: number;
+	calibratedAt: number; // ms since epoch
+}
+
+export interface TakeAudio {
+	samples: Float32Array; // mono PCM
+	sampleRate: number;
+}
+
+// Everything besides the notes that shapes how a take is transcribed
+export interface TakeSettings {
+	bpm: number;
+	quantizeEnabled: boolean;
+	followTempo: boolean;
+	subdivision: number;
+	swingAmount: number;
+	tempoChanges: TempoChange[];
+	detectedKey: KeySignature;
+	keyOverride: KeySignature | null;
+	detectedTimeSignature: TimeSignature;
+	timeSignatureOverride: TimeSignature | null;
+}
+
+export interface Project {
+	id: string;
+	name: string;
+	createdAt: number; // ms since epoch
+	updatedAt: number;
+	rawNotes: DetectedNote[];
+	detectedNotes: DetectedNote[];
+	settings: TakeSettings;
+	pitchTrack?: PitchData[]; // every analysis frame, on the raw notes' timeline; missing from older saves
+	audioOffset?: number; // seconds into the original audio where the raw notes' timeline starts; missing from older saves
+	abcNotation: string;
+	hasAudio: boolean; // original audio stored alongside
+}
+
+// A melody read from an ABC or MIDI file
+export interface ImportedScore {
+	title: string | null;
+	notes: DetectedNote[]; // seconds from the first beat
+	tempoChanges: TempoChange[];
+	key: KeySignature | null; // null when the file doesn't give one
+	timeSignature: TimeSignature | null;
+}
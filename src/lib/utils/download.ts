@@ -0,0 +1,12 @@
+/**
+ * Save data as a file through a temporary object URL
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = filename;
+	link.click();
+	// Give the browser a moment to start the download before revoking
+	setTimeout(() => URL.revokeObjectURL(url), 1000);
+}